@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { DOMAINS } from "./content/domains";
-import type { DomainKey } from "./content/domains";
+import type { Domain, DomainKey, Indicator } from "./content/domains";
+import { BUILT_IN_FRAMEWORKS, DEFAULT_FRAMEWORK } from "./content/frameworks";
+import type { FrameworkDefinition } from "./content/frameworks";
 import {
   LIMITATIONS_TEXT,
   PRIVACY_TEXT,
@@ -8,53 +9,405 @@ import {
   SUBTITLE,
   TOOL_NAME,
 } from "./content/framing";
+import {
+  asRecord,
+  claimId,
+  coerceDepth,
+  coerceExposure,
+  coerceMapItemType,
+  coerceOptionalNumber,
+  coerceScoringModel,
+  coerceStageKind,
+  defaultGapRules,
+  defaultProgrammeDetails,
+  DEPTH_LEVELS,
+  DEPTH_MAP,
+  DEPTH_SHORT,
+  domainScore,
+  emptyDomains,
+  EXPOSURE_LEVELS,
+  GOVERNANCE_NOTE_LABELS,
+  indicatorBreadth,
+  ITEM_GOVERNANCE_LABELS,
+  LEGACY_WEIGHT_DEPTH,
+  newItem,
+  newStage,
+  normalizeIndicators,
+  normalizeItemGovernance,
+  normalizeItems,
+  normalizeStages,
+  parseDepthCell,
+  readList,
+  reconcileParents,
+  reportUnknownFields,
+  roundScore,
+  safeUUID,
+  simpleScore,
+  todayISODate,
+  withGovernance,
+} from "./model";
+import type {
+  AIExposure,
+  CapabilityBaseline,
+  DomainDepth,
+  FindingSeverity,
+  GapFinding,
+  GapRule,
+  GovernanceNoteField,
+  ImportIssue,
+  ImportIssueKind,
+  ItemGovernance,
+  ItemScorer,
+  LearningOutcome,
+  MapItem,
+  MapItemType,
+  MappingStatus,
+  OutcomeTrace,
+  ProgrammeDetails,
+  ProgrammeStage,
+  Reviewer,
+  ReviewState,
+  ScoringModel,
+  StageKind,
+  TargetComparison,
+  TargetGap,
+  TargetProfile,
+  TraceGap,
+} from "./model";
+import {
+  buildDashboardExport,
+  buildSimulationExport,
+  frameworkReference,
+  importCapabilityBaseline,
+  importCurriculumStructure,
+  importSimulationStructure,
+  INTERCHANGE_SCHEMA,
+  readInterchangeEnvelope,
+} from "./interchange";
+import type { FrameworkReference } from "./interchange";
 
-type MapItemType = "Module" | "Activity" | "Assessment";
+/** The depth after `depth` on the I-D-A scale; Assessed wraps round to untagged. */
+function nextDepth(depth: DomainDepth | null | undefined): DomainDepth | null {
+  if (!depth) return DEPTH_LEVELS[0];
+  return DEPTH_LEVELS[DEPTH_LEVELS.indexOf(depth) + 1] ?? null;
+}
 
-type ItemWeight = "Low" | "Medium" | "High";
+/** Set a domain's depth on an item; clearing a domain also clears its indicators. */
+function withDomainDepth(item: MapItem, key: DomainKey, depth: DomainDepth | null): MapItem {
+  if (depth) return { ...item, domains: { ...item.domains, [key]: depth } };
+  const indicators = { ...item.indicators };
+  delete indicators[key];
+  return { ...item, domains: { ...item.domains, [key]: null }, indicators };
+}
 
-const WEIGHT_MAP: Record<ItemWeight, number> = {
-  Low: 1,
-  Medium: 2,
-  High: 3,
+const SCORING_MODEL_LABELS: Record<ScoringModel, string> = {
+  simple: "Simple",
+  "credit-weighted": "Credit-weighted",
 };
 
-type MapItem = {
-  id: string;
-  type: MapItemType;
-  name: string;
-  notes: string;
-  weight: ItemWeight;
-  domains: Record<DomainKey, boolean>;
+/** Notional learning hours per credit, used to convert activity contact hours. */
+const HOURS_PER_CREDIT = 10;
+
+const EXPOSURE_MAP: Record<AIExposure, number> = {
+  None: 0,
+  Permitted: 1,
+  Encouraged: 2,
+  Required: 3,
+  Assessed: 4,
 };
 
-type ProgrammeDetails = {
-  programmeTitle: string;
-  awardLevel: string;
-  department: string;
-  institution: string;
-  mappingDate: string; // YYYY-MM-DD
-  version: string;
-  aiInvolvement?: string;
-  assumptions?: string;
-  risks?: string;
-  rationale?: string;
-  reviewNotes?: string;
+const SEVERITY_LEVELS: FindingSeverity[] = ["High", "Medium", "Low"];
+
+const SEVERITY_STYLES: Record<FindingSeverity, { background: string; color: string; bar: string }> = {
+  High: { background: "#FEE2E2", color: "#B91C1C", bar: "#DC2626" },
+  Medium: { background: "#FEF3C7", color: "#92400E", bar: "#F59E0B" },
+  Low: { background: "#F3F4F6", color: "#374151", bar: "#9CA3AF" },
+};
+
+type GapRuleKind = GapRule["kind"];
+
+const GAP_RULE_LABELS: Record<GapRuleKind, string> = {
+  "no-coverage": "No coverage",
+  "relative-threshold": "Below share of average",
+  "target-minimum": "Target minimum",
+  "target-share": "Target share",
+  "required-domain": "Required domain per item type",
+};
+
+const MAPPING_STATUSES: MappingStatus[] = ["Draft", "In review", "Changes requested", "Approved"];
+
+/** Status moves offered from each state. Approved mappings are read-only until reopened to Draft. */
+const STATUS_TRANSITIONS: Record<MappingStatus, MappingStatus[]> = {
+  Draft: ["In review"],
+  "In review": ["Changes requested", "Approved", "Draft"],
+  "Changes requested": ["In review", "Draft"],
+  Approved: ["Draft"],
 };
 
+const STATUS_STYLES: Record<MappingStatus, { background: string; color: string }> = {
+  Draft: { background: "#F3F4F6", color: "#374151" },
+  "In review": { background: "#DBEAFE", color: "#1E40AF" },
+  "Changes requested": { background: "#FEF3C7", color: "#92400E" },
+  Approved: { background: "#DCFCE7", color: "#166534" },
+};
+
+function statusActionLabel(from: MappingStatus, to: MappingStatus): string {
+  if (to === "In review") return from === "Changes requested" ? "Resubmit for review" : "Submit for review";
+  if (to === "Changes requested") return "Request changes";
+  if (to === "Approved") return "Approve";
+  return from === "Approved" ? "Reopen as draft" : "Back to draft";
+}
+
 type ExportPayload = {
   tool: string;
+  schemaVersion: string;
   exportedAt: string; // ISO datetime
+  framework: FrameworkReference;
   programme: ProgrammeDetails;
   items: MapItem[];
+  governance?: {
+    programme: Pick<ProgrammeDetails, GovernanceNoteField>;
+    register: GovernanceRegisterEntry[];
+  };
+  /** This programme's audit trail, oldest first. */
+  audit?: AuditEntry[];
   analytics?: {
     totalItems: number;
     weightedCoverage: Record<DomainKey, number>;
+    scoringModel?: ScoringModel;
+    moduleRollup?: ModuleRollup[];
+    exposureTotal?: number;
+    alignmentFlags?: AlignmentFlag[];
+    timeline?: TimelinePoint[];
+    indicatorCoverage?: { domain: DomainKey; indicator: string; coverage: number; weightedCoverage: number }[];
+    gapFindings?: GapFinding[];
+    targetComparison?: {
+      percentMet: number;
+      totalShortfall: number;
+      rows: { domain: DomainKey; actual: number; target: number; shortfall: number }[];
+    };
   };
 };
 
+/** Tagged items and intensity for one indicator within a domain. */
+type IndicatorCoverage = {
+  domain: Domain;
+  indicator: Indicator;
+  coverage: number;
+  weightedCoverage: number;
+};
+
+/** A Module's capability profile, including the Activities and Assessments nested under it. */
+type ModuleRollup = {
+  moduleId: string;
+  name: string;
+  childCount: number;
+  coverage: Record<DomainKey, number>;
+  weightedCoverage: Record<DomainKey, number>;
+  /** Summed AI exposure score of the module and its nested items. */
+  exposure: number;
+};
+
+/** An item or module whose AI exposure outweighs the capability development mapped to it. */
+type AlignmentFlag = {
+  scope: "Item" | "Module";
+  id: string;
+  name: string;
+  type: MapItemType;
+  exposure: number;
+  capability: number;
+};
+
+/** Per-stage and cumulative weighted coverage for the student-journey timeline. */
+type TimelinePoint = {
+  stageId: string;
+  label: string;
+  itemCount: number;
+  weightedCoverage: Record<DomainKey, number>;
+  cumulative: Record<DomainKey, number>;
+};
+
+/** Programme-wide teaching/assessment gap for a domain, independent of outcomes. */
+type DomainTraceFlag = {
+  domain: Domain;
+  gap: TraceGap;
+};
+
+type ModuleGroup = {
+  module: MapItem;
+  children: MapItem[];
+};
+
+/** One side of a comparison: a workspace programme or a loaded JSON export. */
+type ComparisonSide = {
+  label: string;
+  programme: ProgrammeDetails;
+  items: MapItem[];
+};
+
+type DomainDelta = {
+  key: DomainKey;
+  coverageBefore: number;
+  coverageAfter: number;
+  weightedBefore: number;
+  weightedAfter: number;
+};
+
+type DepthChange = {
+  key: DomainKey;
+  from: DomainDepth | null;
+  to: DomainDepth | null;
+};
+
+type MappingComparison = {
+  domainDeltas: DomainDelta[];
+  added: MapItem[];
+  removed: MapItem[];
+  retagged: { before: MapItem; after: MapItem; changes: DepthChange[] }[];
+};
+
+/** Single-programme storage used before workspaces; migrated on first load. */
 const STORAGE_KEY = "cloudpedagogy_programme_mapping_v1";
 
+const WORKSPACE_STORAGE_KEY = "cloudpedagogy_programme_mapping_workspace_v1";
+
+/** A named programme mapping held in the local workspace. */
+type WorkspaceEntry = {
+  id: string;
+  name: string;
+  archived: boolean;
+  updatedAt: string; // ISO datetime
+  programme: ProgrammeDetails;
+  items: MapItem[];
+};
+
+type Workspace = {
+  activeId: string;
+  programmes: WorkspaceEntry[];
+};
+
+/** URL fragment that carries a shared mapping; the fragment is never sent to a server. */
+const SHARE_FRAGMENT_PREFIX = "#share=";
+
+/** Longest share link offered for copying; some mail and chat clients truncate longer URLs. */
+const SHARE_LINK_MAX_LENGTH = 8000;
+
+/** A mapping as carried in a share link: the export without derived analytics. */
+type SharePayload = Omit<ExportPayload, "analytics" | "programme"> & {
+  /** Built-in frameworks are carried by reference only. */
+  programme: Omit<ProgrammeDetails, "framework"> & { framework: FrameworkDefinition | FrameworkReference };
+};
+
+const AUDIT_STORAGE_KEY = "cloudpedagogy_programme_mapping_audit_v1";
+
+/** Edits are logged once typing has paused for this long, as one entry. */
+const AUDIT_EDIT_DELAY_MS = 4000;
+/**
+ * Audit entries kept per programme. Beyond this the oldest are dropped and a
+ * "Truncated" entry records how many, so exported trails show the gap.
+ */
+const AUDIT_TRAIL_LIMIT = 500;
+
+type AuditKind = "Status" | "Reviewer" | "Comment" | "Edit" | "Truncated";
+const AUDIT_KINDS: AuditKind[] = ["Status", "Reviewer", "Comment", "Edit", "Truncated"];
+
+/** One append-only audit trail record for a workspace programme. */
+type AuditEntry = {
+  id: string;
+  programmeId: string;
+  at: string; // ISO datetime
+  kind: AuditKind;
+  actor: string;
+  detail: string;
+  /** Truncated entries only: how many earlier entries have been dropped in total. */
+  dropped?: number;
+};
+
+/** Name last entered for status changes and comments, reused as the audit actor. */
+const ACTOR_STORAGE_KEY = "cloudpedagogy_programme_mapping_actor_v1";
+
+const SNAPSHOT_STORAGE_KEY = "cloudpedagogy_programme_mapping_snapshots_v1";
+
+/** Automatic snapshots kept per programme; named snapshots are never pruned. */
+const AUTO_SNAPSHOT_LIMIT = 10;
+
+/** A saved copy of one workspace programme, restorable later. */
+type Snapshot = {
+  id: string;
+  programmeId: string;
+  name: string;
+  takenAt: string; // ISO datetime
+  auto: boolean;
+  programme: ProgrammeDetails;
+  items: MapItem[];
+};
+
+const TARGET_PROFILE_STORAGE_KEY = "cloudpedagogy_programme_mapping_target_profiles_v1";
+
+/** One row of the governance register: an item with any governance notes. */
+type GovernanceRegisterEntry = ItemGovernance & {
+  itemId: string;
+  name: string;
+  type: MapItemType;
+  overdue: boolean;
+};
+
+type MergeChoice = "mine" | "theirs" | "combine";
+
+/** A field that differs between the current mapping ("mine") and an imported one ("theirs"). */
+type MergeConflict = {
+  id: string;
+  /** The current item; absent for programme governance notes. */
+  itemId?: string;
+  /** "name", "type", "notes", "exposure", "size", `domain:<key>`, `governance:<field>` or a programme governance note field. */
+  field: string;
+  label: string;
+  mine: string;
+  theirs: string;
+  canCombine: boolean;
+};
+
+type MergePlan = {
+  matches: { mine: MapItem; theirs: MapItem; byName: boolean }[];
+  added: MapItem[];
+  conflicts: MergeConflict[];
+};
+
+const IMPORT_ISSUE_KINDS: ImportIssueKind[] = ["Dropped", "Coerced", "Unknown field", "Duplicate id"];
+
+/** Version of the mapping file format (`ExportPayload`) this tool writes. */
+const EXPORT_SCHEMA_VERSION = "1.0";
+
+/** Files without a `schemaVersion` predate versioning and are read as legacy exports. */
+const EXPORT_MAJOR_VERSIONS = ["1"];
+
+/** A mapping file checked for import: what lenient repair would change, and the repaired mapping. */
+type ExportValidation = {
+  version: string;
+  issues: ImportIssue[];
+  programme: ProgrammeDetails;
+  items: MapItem[];
+};
+
+/** A shared-format file read for import, held until the user has reviewed its issues. */
+type PendingInterchange = { fileName: string; source: string; version: string; issues: ImportIssue[] } & (
+  | { kind: "curriculum-structure" | "simulation-structure"; programme: ProgrammeDetails; items: MapItem[] }
+  | { kind: "capability-baseline"; baseline: CapabilityBaseline }
+);
+
+/** Session-only undo/redo stacks for item edits. */
+type ItemHistory = {
+  past: MapItem[][];
+  present: MapItem[];
+  future: MapItem[][];
+  /** Consecutive edits sharing this key (e.g. typing in one field) form a single undo step. */
+  lastKey?: string;
+};
+
+const HISTORY_LIMIT = 100;
+
+const TYPED_ITEM_FIELDS: string[] = ["name", "notes", "credits", "weighting", "contactHours"];
+
 /** Fix pluralisation in Markdown export (Activity → Activities). */
 const PLURAL_LABELS: Record<MapItemType, string> = {
   Module: "Modules",
@@ -62,84 +415,479 @@ const PLURAL_LABELS: Record<MapItemType, string> = {
   Assessment: "Assessments",
 };
 
+function emptyCounts(domains: Domain[]): Record<DomainKey, number> {
+  return Object.fromEntries(domains.map((d) => [d.key, 0]));
+}
+
+/** Group items into modules with their children, plus any unassigned activities/assessments. */
+function buildHierarchy(items: MapItem[]): { modules: ModuleGroup[]; unassigned: MapItem[] } {
+  const modules: ModuleGroup[] = items
+    .filter((it) => it.type === "Module")
+    .map((module) => ({ module, children: [] }));
+  const byId = new Map(modules.map((g) => [g.module.id, g]));
+  const unassigned: MapItem[] = [];
+
+  for (const it of items) {
+    if (it.type === "Module") continue;
+    const group = it.parentId ? byId.get(it.parentId) : undefined;
+    if (group) group.children.push(it);
+    else unassigned.push(it);
+  }
+
+  return { modules, unassigned };
+}
+
 /**
- * Safe UUID generator for wider browser support.
+ * Size of an item in credit equivalents. Items without the relevant value
+ * count as 1 so they still register under the credit-weighted model.
  */
-function safeUUID(): string {
-  try {
-    const c: any = typeof crypto !== "undefined" ? crypto : undefined;
-    if (c && typeof c.randomUUID === "function") return c.randomUUID();
-  } catch {
-    // ignore
+function creditEquivalent(item: MapItem, byId: Map<string, MapItem>): number {
+  if (item.type === "Module") return item.credits ?? 1;
+  if (item.type === "Activity") {
+    return item.contactHours !== undefined ? item.contactHours / HOURS_PER_CREDIT : 1;
   }
-  return `id-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
+  const parentCredits = item.parentId ? byId.get(item.parentId)?.credits : undefined;
+  if (item.weighting === undefined || parentCredits === undefined) return 1;
+  return (item.weighting / 100) * parentCredits;
 }
 
-function emptyDomains(): Record<DomainKey, boolean> {
-  return {
-    awareness: false,
-    coagency: false,
-    practice: false,
-    ethics: false,
-    governance: false,
-    reflection: false,
-  };
+function makeItemScorer(items: MapItem[], model: ScoringModel): ItemScorer {
+  if (model === "simple") return simpleScore;
+  const byId = new Map(items.map((it) => [it.id, it]));
+  return (item, key) => simpleScore(item, key) * creditEquivalent(item, byId);
+}
+
+/** Count tagged items and sum item scores per domain, rolled up from indicators where defined. */
+function tallyCoverage(
+  list: MapItem[],
+  domains: Domain[],
+  score: ItemScorer = simpleScore
+): {
+  coverage: Record<DomainKey, number>;
+  weightedCoverage: Record<DomainKey, number>;
+} {
+  const coverage = emptyCounts(domains);
+  const weightedCoverage = emptyCounts(domains);
+  for (const item of list) {
+    for (const d of domains) {
+      if (item.domains[d.key]) {
+        coverage[d.key] += 1;
+        weightedCoverage[d.key] += domainScore(item, d, score);
+      }
+    }
+  }
+  for (const k of Object.keys(weightedCoverage) as DomainKey[]) {
+    weightedCoverage[k] = roundScore(weightedCoverage[k]);
+  }
+  return { coverage, weightedCoverage };
+}
+
+/** Weighted coverage per domain contributed by each item type. */
+function tallyByItemType(
+  list: MapItem[],
+  domains: Domain[],
+  score: ItemScorer = simpleScore
+): Record<MapItemType, Record<DomainKey, number>> {
+  const byType = (type: MapItemType) =>
+    tallyCoverage(list.filter((it) => it.type === type), domains, score).weightedCoverage;
+  return { Module: byType("Module"), Activity: byType("Activity"), Assessment: byType("Assessment") };
+}
+
+/**
+ * How many items are tagged with each pair of domains. The diagonal holds the
+ * number of items tagged with that domain at all.
+ */
+function tallyCooccurrence(list: MapItem[], domains: Domain[]): Record<DomainKey, Record<DomainKey, number>> {
+  const counts: Record<DomainKey, Record<DomainKey, number>> = {};
+  for (const d of domains) counts[d.key] = emptyCounts(domains);
+  for (const item of list) {
+    const tagged = domains.filter((d) => item.domains[d.key]);
+    for (const a of tagged) {
+      for (const b of tagged) counts[a.key][b.key] += 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Tally coverage for every indicator the framework defines. An item counts
+ * toward an indicator at its depth for the parent domain, either by tagging
+ * the indicator or by tagging the domain without choosing indicators.
+ */
+function tallyIndicators(
+  list: MapItem[],
+  domains: Domain[],
+  score: ItemScorer = simpleScore
+): IndicatorCoverage[] {
+  const rows: IndicatorCoverage[] = [];
+  for (const domain of domains) {
+    for (const indicator of domain.indicators ?? []) {
+      const tagged = list.filter(
+        (it) =>
+          it.domains[domain.key] &&
+          (indicatorBreadth(it, domain) === 1 || it.indicators?.[domain.key]?.includes(indicator.key))
+      );
+      rows.push({
+        domain,
+        indicator,
+        coverage: tagged.length,
+        weightedCoverage: roundScore(tagged.reduce((sum, it) => sum + score(it, domain.key), 0)),
+      });
+    }
+  }
+  return rows;
+}
+
+function buildIndicatorObservations(indicatorCoverage: IndicatorCoverage[], domains: Domain[]): string[] {
+  const uncovered = domains
+    .map((d) => ({
+      domain: d,
+      names: indicatorCoverage
+        .filter((row) => row.domain.key === d.key && row.coverage === 0)
+        .map((row) => row.indicator.name),
+    }))
+    .filter((g) => g.names.length > 0);
+  if (uncovered.length === 0) return [];
+
+  return [
+    `**Uncovered Indicators:** No item is tagged against ${uncovered
+      .map((g) => `${g.domain.short} (${g.names.join(", ")})`)
+      .join("; ")}. ` + "A domain can appear covered while some of its dimensions are never addressed.",
+  ];
+}
+
+function sumExposure(list: MapItem[]): number {
+  return list.reduce((sum, it) => sum + EXPOSURE_MAP[it.exposure], 0);
+}
+
+/**
+ * Weighted capability development of a single item: summed depth across its
+ * tagged domains, rolled up from indicators where defined. Always uses the
+ * simple model so it stays on the exposure scale.
+ */
+function itemCapabilityScore(item: MapItem, domains: Domain[]): number {
+  return domains.reduce((sum, d) => sum + domainScore(item, d), 0);
+}
+
+function buildModuleRollup(
+  items: MapItem[],
+  domains: Domain[],
+  score: ItemScorer = simpleScore
+): ModuleRollup[] {
+  return buildHierarchy(items).modules.map(({ module, children }) => ({
+    moduleId: module.id,
+    name: module.name,
+    childCount: children.length,
+    ...tallyCoverage([module, ...children], domains, score),
+    exposure: sumExposure([module, ...children]),
+  }));
+}
+
+/**
+ * Flag items and modules where the AI exposure score is higher than the
+ * weighted capability coverage mapped to them.
+ */
+function buildAlignmentFlags(items: MapItem[], domains: Domain[]): AlignmentFlag[] {
+  const flags: AlignmentFlag[] = [];
+
+  for (const it of items) {
+    const exposure = EXPOSURE_MAP[it.exposure];
+    const capability = roundScore(itemCapabilityScore(it, domains));
+    if (exposure > capability) {
+      flags.push({ scope: "Item", id: it.id, name: it.name, type: it.type, exposure, capability });
+    }
+  }
+
+  for (const { module, children } of buildHierarchy(items).modules) {
+    const members = [module, ...children];
+    const exposure = sumExposure(members);
+    const capability = roundScore(members.reduce((sum, it) => sum + itemCapabilityScore(it, domains), 0));
+    if (exposure > capability) {
+      flags.push({
+        scope: "Module",
+        id: module.id,
+        name: module.name,
+        type: "Module",
+        exposure,
+        capability,
+      });
+    }
+  }
+
+  return flags;
+}
+
+/** Resolve an item's stage, falling back to its parent module's stage. */
+function effectiveStageId(item: MapItem, byId: Map<string, MapItem>): string | undefined {
+  if (item.stageId) return item.stageId;
+  const parent = item.parentId ? byId.get(item.parentId) : undefined;
+  return parent?.stageId;
+}
+
+function buildTimeline(
+  items: MapItem[],
+  stages: ProgrammeStage[],
+  domains: Domain[],
+  score: ItemScorer = simpleScore
+): TimelinePoint[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const cumulative = emptyCounts(domains);
+
+  return stages.map((stage) => {
+    const inStage = items.filter((it) => effectiveStageId(it, byId) === stage.id);
+    const { weightedCoverage } = tallyCoverage(inStage, domains, score);
+    for (const d of domains) cumulative[d.key] = roundScore(cumulative[d.key] + weightedCoverage[d.key]);
+    return {
+      stageId: stage.id,
+      label: stage.label || stage.kind,
+      itemCount: inStage.length,
+      weightedCoverage,
+      cumulative: { ...cumulative },
+    };
+  });
+}
+
+/**
+ * Flag domains that first appear late in the programme (second half of the
+ * stages) or appear in a single stage and are never revisited.
+ */
+function buildTimelineObservations(timeline: TimelinePoint[], domains: Domain[]): string[] {
+  const stageCount = timeline.length;
+  if (stageCount < 2) return [];
+
+  const lateFrom = Math.ceil(stageCount / 2);
+  const late: string[] = [];
+  const notRevisited: string[] = [];
+
+  for (const d of domains) {
+    const present = timeline
+      .map((pt, idx) => (pt.weightedCoverage[d.key] > 0 ? idx : -1))
+      .filter((idx) => idx >= 0);
+    if (present.length === 0) continue;
+
+    const first = present[0];
+    if (first >= lateFrom) late.push(`${d.name} (from ${timeline[first].label})`);
+    else if (present.length === 1) notRevisited.push(`${d.name} (${timeline[first].label} only)`);
+  }
+
+  const lines: string[] = [];
+  if (late.length > 0) {
+    lines.push(
+      `**Late Introduction:** ${late.join(", ")} first appear${late.length === 1 ? "s" : ""} in the second half of the student journey. ` +
+      "Consider whether earlier, lighter-touch exposure would help students build towards these domains."
+    );
+  }
+  if (notRevisited.length > 0) {
+    lines.push(
+      `**Not Revisited:** ${notRevisited.join(", ")} ${notRevisited.length === 1 ? "is" : "are"} addressed in a single stage and not returned to later. ` +
+      "Capability may benefit from being revisited as students progress."
+    );
+  }
+  return lines;
+}
+
+function describeAlignmentFlag(f: AlignmentFlag): string {
+  const name = (f.name || "").trim() || "Untitled";
+  const label = f.scope === "Module" ? `Module “${name}” (incl. nested items)` : `${f.type} “${name}”`;
+  return `${label}: AI exposure ${f.exposure} exceeds weighted capability coverage ${f.capability}.`;
+}
+
+/** Items an outcome applies to: its module and nested items, or the whole programme. */
+function outcomeScope(outcome: LearningOutcome, items: MapItem[]): MapItem[] {
+  const module = outcome.moduleId ? items.find((it) => it.id === outcome.moduleId) : undefined;
+  if (!module) return items;
+  return items.filter((it) => it.id === module.id || it.parentId === module.id);
+}
+
+/**
+ * True when some teaching item comes no later than the assessment in the
+ * student journey. Unstaged items are not ordered, so they always count.
+ */
+function taughtBefore(
+  teaching: MapItem[],
+  assessment: MapItem,
+  byId: Map<string, MapItem>,
+  stages: ProgrammeStage[]
+): boolean {
+  const stageIndex = (it: MapItem) => stages.findIndex((st) => st.id === effectiveStageId(it, byId));
+  const assessedAt = stageIndex(assessment);
+  return teaching.some((t) => {
+    const taughtAt = stageIndex(t);
+    return taughtAt < 0 || assessedAt < 0 || taughtAt <= assessedAt;
+  });
+}
+
+function traceGap(
+  taughtBy: MapItem[],
+  assessedBy: MapItem[],
+  byId: Map<string, MapItem>,
+  stages: ProgrammeStage[]
+): TraceGap | undefined {
+  if (taughtBy.length > 0 && assessedBy.length === 0) return "Taught, not assessed";
+  if (assessedBy.length > 0 && !assessedBy.some((a) => taughtBefore(taughtBy, a, byId, stages))) {
+    return "Assessed, not taught first";
+  }
+  return undefined;
+}
+
+/**
+ * Trace each outcome to its domains, the Modules and Activities in scope that
+ * teach those domains, and the Assessments that declare the outcome and are
+ * tagged with the domain.
+ */
+function buildTraceability(
+  outcomes: LearningOutcome[],
+  items: MapItem[],
+  domains: Domain[],
+  stages: ProgrammeStage[]
+): OutcomeTrace[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+
+  return outcomes.map((outcome) => {
+    const scope = outcomeScope(outcome, items);
+    const assessedBy = items.filter((it) => it.type === "Assessment" && it.outcomeIds?.includes(outcome.id));
+    const links = domains
+      .filter((d) => outcome.domains.includes(d.key))
+      .map((domain) => {
+        const taughtBy = scope.filter((it) => it.type !== "Assessment" && it.domains[domain.key]);
+        const assessing = assessedBy.filter((it) => it.domains[domain.key]);
+        return { domain, taughtBy, assessedBy: assessing, gap: traceGap(taughtBy, assessing, byId, stages) };
+      });
+    return { outcome, assessedBy, links, ...(assessedBy.length === 0 ? { gap: "Not assessed" as const } : {}) };
+  });
+}
+
+/** Domains taught somewhere but never on an Assessment, or assessed before any teaching. */
+function buildDomainTraceFlags(items: MapItem[], domains: Domain[], stages: ProgrammeStage[]): DomainTraceFlag[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const flags: DomainTraceFlag[] = [];
+  for (const domain of domains) {
+    const tagged = items.filter((it) => it.domains[domain.key]);
+    const gap = traceGap(
+      tagged.filter((it) => it.type !== "Assessment"),
+      tagged.filter((it) => it.type === "Assessment"),
+      byId,
+      stages
+    );
+    if (gap) flags.push({ domain, gap });
+  }
+  return flags;
 }
 
-function newItem(type: MapItemType): MapItem {
-  const id = safeUUID();
-  return { id, type, name: "", notes: "", weight: "Medium", domains: emptyDomains() };
+function outcomeLabel(outcome: LearningOutcome): string {
+  const text = outcome.text.trim() || "Untitled outcome";
+  return outcome.code.trim() ? `${outcome.code.trim()}: ${text}` : text;
 }
 
-function todayISODate(): string {
-  const d = new Date();
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
+function describeTraceGaps(traces: OutcomeTrace[], domainFlags: DomainTraceFlag[]): string[] {
+  const lines: string[] = [];
+  for (const t of traces) {
+    if (t.gap) lines.push(`Outcome “${outcomeLabel(t.outcome)}” is not assessed by any Assessment.`);
+    for (const link of t.links) {
+      if (link.gap === "Taught, not assessed") {
+        lines.push(`Outcome “${outcomeLabel(t.outcome)}”: ${link.domain.name} is taught but no Assessment of this outcome is tagged with it.`);
+      } else if (link.gap === "Assessed, not taught first") {
+        lines.push(`Outcome “${outcomeLabel(t.outcome)}”: ${link.domain.name} is assessed without being taught first.`);
+      }
+    }
+  }
+  for (const f of domainFlags) {
+    lines.push(
+      f.gap === "Taught, not assessed"
+        ? `${f.domain.name} is taught but never tagged on an Assessment.`
+        : `${f.domain.name} is assessed without being taught first.`
+    );
+  }
+  return lines;
 }
 
-function defaultProgrammeDetails(): ProgrammeDetails {
+function normalizeReview(raw: unknown): ReviewState {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const reviewers = Array.isArray(obj.reviewers) ? (obj.reviewers as unknown[]) : [];
+  const comments = Array.isArray(obj.comments) ? (obj.comments as unknown[]) : [];
   return {
-    programmeTitle: "",
-    awardLevel: "",
-    department: "",
-    institution: "",
-    mappingDate: todayISODate(),
-    version: "v0.1",
+    status: MAPPING_STATUSES.includes(obj.status as MappingStatus) ? (obj.status as MappingStatus) : "Draft",
+    ...(typeof obj.statusChangedBy === "string" ? { statusChangedBy: obj.statusChangedBy } : {}),
+    ...(typeof obj.statusChangedAt === "string" ? { statusChangedAt: obj.statusChangedAt } : {}),
+    reviewers: reviewers
+      .filter((r): r is Record<string, unknown> => !!r && typeof r === "object" && typeof (r as Record<string, unknown>).name === "string")
+      .map((r) => ({
+        id: typeof r.id === "string" ? r.id : safeUUID(),
+        name: r.name as string,
+        role: typeof r.role === "string" ? r.role : "",
+      })),
+    comments: comments
+      .filter((c): c is Record<string, unknown> => !!c && typeof c === "object")
+      .filter((c) => typeof c.itemId === "string" && typeof c.text === "string")
+      .map((c) => ({
+        id: typeof c.id === "string" ? c.id : safeUUID(),
+        itemId: c.itemId as string,
+        author: typeof c.author === "string" ? c.author : "",
+        text: c.text as string,
+        at: typeof c.at === "string" ? c.at : "",
+      })),
   };
 }
 
-function coerceMapItemType(v: unknown): MapItemType {
-  if (v === "Module" || v === "Activity" || v === "Assessment") return v;
-  return "Module";
+function normalizeOutcomes(outcomesRaw: unknown, domains: Domain[]): LearningOutcome[] {
+  const arr = Array.isArray(outcomesRaw) ? (outcomesRaw as unknown[]) : [];
+  const keys = new Set(domains.map((d) => d.key));
+  const seen = new Set<string>();
+  return arr
+    .filter((o): o is Record<string, unknown> => !!o && typeof o === "object")
+    .map((o) => ({
+      id: claimId(o.id, seen),
+      code: typeof o.code === "string" ? o.code : "",
+      text: typeof o.text === "string" ? o.text : "",
+      ...(typeof o.moduleId === "string" ? { moduleId: o.moduleId } : {}),
+      domains: Array.isArray(o.domains)
+        ? (o.domains as unknown[]).filter((k): k is DomainKey => typeof k === "string" && keys.has(k))
+        : [],
+    }));
 }
 
-function coerceWeight(v: unknown): ItemWeight {
-  if (v === "Low" || v === "Medium" || v === "High") return v;
-  return "Medium";
+const ITEM_SIZE_LABELS: Record<MapItemType, string> = {
+  Module: "Credits",
+  Activity: "Contact hours",
+  Assessment: "Weighting (% of module)",
+};
+
+/** The numeric size field that applies to each item type. */
+function itemSizeValue(item: MapItem): number | undefined {
+  if (item.type === "Module") return item.credits;
+  if (item.type === "Activity") return item.contactHours;
+  return item.weighting;
 }
 
-function normalizeItems(itemsRaw: unknown): MapItem[] {
-  const arr = Array.isArray(itemsRaw) ? (itemsRaw as any[]) : [];
-  if (arr.length === 0) return [newItem("Module")];
+function itemSizePatch(type: MapItemType, raw: string): Partial<MapItem> {
+  const n = coerceOptionalNumber(raw);
+  if (type === "Module") return { credits: n };
+  if (type === "Activity") return { contactHours: n };
+  return { weighting: n };
+}
 
-  return arr.map((it) => ({
-    id: typeof it?.id === "string" ? it.id : safeUUID(),
-    type: coerceMapItemType(it?.type),
-    name: typeof it?.name === "string" ? it.name : "",
-    notes: typeof it?.notes === "string" ? it.notes : "",
-    weight: coerceWeight(it?.weight),
-    domains: {
-      ...emptyDomains(),
-      ...(typeof it?.domains === "object" && it?.domains ? it.domains : {}),
-    },
-  }));
+function isReviewOverdue(governance: ItemGovernance | undefined, today: string): boolean {
+  return !!governance?.reviewDue && governance.reviewDue < today;
+}
+
+/** Items with governance notes, earliest review date first (undated last). */
+function buildGovernanceRegister(items: MapItem[], today: string): GovernanceRegisterEntry[] {
+  return items
+    .filter((it) => it.governance)
+    .map((it) => ({
+      itemId: it.id,
+      name: it.name,
+      type: it.type,
+      ...it.governance,
+      overdue: isReviewOverdue(it.governance, today),
+    }))
+    .sort((a, b) => (a.reviewDue ?? "9999").localeCompare(b.reviewDue ?? "9999"));
 }
 
 function normalizeProgramme(p: unknown): ProgrammeDetails {
   const obj = p && typeof p === "object" ? (p as any) : {};
   const base = defaultProgrammeDetails();
+  const framework = resolveFramework(obj.framework) ?? DEFAULT_FRAMEWORK;
   return {
     programmeTitle:
       typeof obj.programmeTitle === "string" ? obj.programmeTitle : base.programmeTitle,
@@ -148,6 +896,14 @@ function normalizeProgramme(p: unknown): ProgrammeDetails {
     institution: typeof obj.institution === "string" ? obj.institution : base.institution,
     mappingDate: typeof obj.mappingDate === "string" ? obj.mappingDate : base.mappingDate,
     version: typeof obj.version === "string" ? obj.version : base.version,
+    stages: normalizeStages(obj.stages),
+    scoringModel: coerceScoringModel(obj.scoringModel),
+    framework,
+    outcomes: normalizeOutcomes(obj.outcomes, framework.domains),
+    gapRules: normalizeGapRules(obj.gapRules, framework.domains),
+    targetProfile: normalizeTargetProfile(obj.targetProfile, framework) ?? undefined,
+    baseline: normalizeBaseline(obj.baseline, framework.domains),
+    review: normalizeReview(obj.review),
     aiInvolvement: typeof obj.aiInvolvement === "string" ? obj.aiInvolvement : undefined,
     assumptions: typeof obj.assumptions === "string" ? obj.assumptions : undefined,
     risks: typeof obj.risks === "string" ? obj.risks : undefined,
@@ -156,42 +912,603 @@ function normalizeProgramme(p: unknown): ProgrammeDetails {
   };
 }
 
-function loadState(): { programme: ProgrammeDetails; items: MapItem[] } {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return { programme: defaultProgrammeDetails(), items: [newItem("Module")] };
-
-    const parsed = JSON.parse(raw) as { programme?: unknown; items?: unknown };
-    return {
-      programme: normalizeProgramme(parsed?.programme),
-      items: normalizeItems(parsed?.items),
-    };
-  } catch {
-    return { programme: defaultProgrammeDetails(), items: [newItem("Module")] };
+/**
+ * Indicators may be given as `{ key, name }` objects or as plain names, in
+ * which case the key is derived from the name. Duplicate keys are dropped.
+ */
+function parseIndicators(raw: unknown): Indicator[] {
+  const arr = Array.isArray(raw) ? (raw as unknown[]) : [];
+  const seen = new Set<string>();
+  const result: Indicator[] = [];
+  for (const entry of arr) {
+    const obj = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    const name = typeof entry === "string" ? entry : typeof obj.name === "string" ? obj.name : "";
+    if (!name.trim()) continue;
+    const key = typeof obj.key === "string" && obj.key.trim() ? obj.key : safeSlug(name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push({ key, name: name.trim() });
   }
+  return result;
 }
 
+/**
+ * Validate a framework definition file. Returns the definition, or a message
+ * describing the first problem found.
+ */
+function parseFrameworkDefinition(raw: unknown): { framework: FrameworkDefinition } | { error: string } {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : null;
+  if (!obj) return { error: "The definition must be a JSON object." };
+  if (typeof obj.id !== "string" || !obj.id.trim()) return { error: "The definition needs an “id”." };
+  if (typeof obj.version !== "string" || !obj.version.trim()) return { error: "The definition needs a “version”." };
+  if (!Array.isArray(obj.domains) || obj.domains.length === 0) {
+    return { error: "The definition needs a non-empty “domains” list." };
+  }
 
-function downloadBlob(filename: string, blob: Blob) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
+  const domains: Domain[] = [];
+  const seen = new Set<string>();
+  for (const [idx, d] of (obj.domains as unknown[]).entries()) {
+    const dom = d && typeof d === "object" ? (d as Record<string, unknown>) : {};
+    if (typeof dom.key !== "string" || !dom.key.trim()) return { error: `Domain ${idx + 1} needs a “key”.` };
+    if (seen.has(dom.key)) return { error: `Domain key “${dom.key}” is used more than once.` };
+    if (typeof dom.name !== "string" || !dom.name.trim()) return { error: `Domain “${dom.key}” needs a “name”.` };
+    seen.add(dom.key);
 
-function downloadJSON(filename: string, data: unknown) {
-  downloadBlob(
-    filename,
-    new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
-  );
-}
+    const indicators = parseIndicators(dom.indicators ?? dom.subCompetencies);
+    domains.push({
+      key: dom.key,
+      name: dom.name,
+      short: typeof dom.short === "string" && dom.short.trim() ? dom.short : dom.name,
+      prompt: typeof dom.prompt === "string" ? dom.prompt : "",
+      ...(indicators.length ? { indicators } : {}),
+    });
+  }
 
-function downloadText(filename: string, text: string) {
-  downloadBlob(filename, new Blob([text], { type: "text/markdown;charset=utf-8" }));
+  return {
+    framework: {
+      id: obj.id,
+      version: obj.version,
+      name: typeof obj.name === "string" && obj.name.trim() ? obj.name : obj.id,
+      domains,
+    },
+  };
+}
+
+/**
+ * Resolve a stored framework: an embedded definition, or a reference to a
+ * built-in framework by id and version. Returns null if it cannot be resolved.
+ * Files saved before frameworks were configurable have none and use the default.
+ * Built-in frameworks always come from this build, so stored copies pick up
+ * later additions such as indicators.
+ */
+function resolveFramework(raw: unknown): FrameworkDefinition | null {
+  if (raw === undefined || raw === null) return DEFAULT_FRAMEWORK;
+  const parsed = parseFrameworkDefinition(raw);
+  if ("framework" in parsed) {
+    return BUILT_IN_FRAMEWORKS.find((f) => sameFramework(f, parsed.framework)) ?? parsed.framework;
+  }
+
+  const ref = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return BUILT_IN_FRAMEWORKS.find((f) => f.id === ref.id && (!ref.version || f.version === ref.version)) ?? null;
+}
+
+/** Normalize a stored or imported `{ programme, items }` pair against the programme's framework. */
+function normalizeMapping(raw: unknown): { programme: ProgrammeDetails; items: MapItem[] } {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const programme = normalizeProgramme(obj.programme);
+  const stageIds = new Set(programme.stages.map((st) => st.id));
+  const items = normalizeItems(obj.items, programme.framework.domains).map((it) => {
+    if (!it.stageId || stageIds.has(it.stageId)) return it;
+    const next = { ...it };
+    delete next.stageId;
+    return next;
+  });
+  return reconcileOutcomes(programme, items);
+}
+
+/**
+ * Module-level outcomes whose module no longer exists become programme-level,
+ * and Assessments drop references to outcomes that no longer exist.
+ */
+function reconcileOutcomes(
+  programme: ProgrammeDetails,
+  items: MapItem[]
+): { programme: ProgrammeDetails; items: MapItem[] } {
+  const moduleIds = new Set(items.filter((it) => it.type === "Module").map((it) => it.id));
+  const outcomes = programme.outcomes.map((o) => {
+    if (!o.moduleId || moduleIds.has(o.moduleId)) return o;
+    const next = { ...o };
+    delete next.moduleId;
+    return next;
+  });
+  const outcomeIds = new Set(outcomes.map((o) => o.id));
+  return {
+    programme: { ...programme, outcomes },
+    items: items.map((it) => {
+      if (!it.outcomeIds) return it;
+      const next = { ...it };
+      delete next.outcomeIds;
+      const kept = it.outcomeIds.filter((id) => outcomeIds.has(id));
+      return it.type === "Assessment" && kept.length ? { ...next, outcomeIds: kept } : next;
+    }),
+  };
+}
+
+/**
+ * Drop item references the programme no longer has: stages, domains (and
+ * their indicators) outside the framework, and assessed outcomes. Used when
+ * undo or redo brings back items from before a structural programme change.
+ */
+function reconcileItemsWithProgramme(items: MapItem[], programme: ProgrammeDetails): MapItem[] {
+  const stageIds = new Set(programme.stages.map((st) => st.id));
+  const domains = programme.framework.domains;
+  const keys = new Set(domains.map((d) => d.key));
+  const reconciled = items.map((it) => {
+    const domainsKept = Object.fromEntries(Object.entries(it.domains).filter(([k]) => keys.has(k)));
+    const indicators = normalizeIndicators(it.indicators, domainsKept, domains);
+    const next = { ...it, domains: domainsKept };
+    delete next.indicators;
+    if (next.stageId && !stageIds.has(next.stageId)) delete next.stageId;
+    return indicators ? { ...next, indicators } : next;
+  });
+  return reconcileOutcomes(programme, reconciled).items;
+}
+
+function loadState(): { programme: ProgrammeDetails; items: MapItem[] } {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { programme: defaultProgrammeDetails(), items: [newItem("Module")] };
+
+    return normalizeMapping(JSON.parse(raw));
+  } catch {
+    return { programme: defaultProgrammeDetails(), items: [newItem("Module")] };
+  }
+}
+
+function newWorkspaceEntry(
+  name: string,
+  programme: ProgrammeDetails = defaultProgrammeDetails(),
+  items: MapItem[] = [newItem("Module")]
+): WorkspaceEntry {
+  return {
+    id: safeUUID(),
+    name,
+    archived: false,
+    updatedAt: new Date().toISOString(),
+    programme,
+    items,
+  };
+}
+
+function entryDisplayName(entry: WorkspaceEntry): string {
+  return entry.name.trim() || entry.programme.programmeTitle.trim() || "Untitled programme";
+}
+
+function normalizeWorkspace(w: unknown): Workspace | null {
+  const obj = w && typeof w === "object" ? (w as Record<string, unknown>) : {};
+  const arr = Array.isArray(obj.programmes) ? (obj.programmes as unknown[]) : [];
+
+  const programmes: WorkspaceEntry[] = arr
+    .filter((e): e is Record<string, unknown> => !!e && typeof e === "object")
+    .map((e) => ({
+      id: typeof e.id === "string" ? e.id : safeUUID(),
+      name: typeof e.name === "string" ? e.name : "",
+      archived: e.archived === true,
+      updatedAt: typeof e.updatedAt === "string" ? e.updatedAt : new Date().toISOString(),
+      ...normalizeMapping(e),
+    }));
+
+  if (programmes.length === 0) return null;
+  const activeId =
+    typeof obj.activeId === "string" && programmes.some((e) => e.id === obj.activeId)
+      ? obj.activeId
+      : programmes[0].id;
+  return { activeId, programmes };
+}
+
+/**
+ * Load the workspace. The first time this version runs, the older
+ * single-programme entry becomes the workspace's first programme.
+ */
+function loadWorkspace(): Workspace {
+  try {
+    const raw = localStorage.getItem(WORKSPACE_STORAGE_KEY);
+    const existing = raw ? normalizeWorkspace(JSON.parse(raw)) : null;
+    if (existing) return existing;
+  } catch {
+    // fall through to migration
+  }
+
+  const legacy = loadState();
+  const entry = newWorkspaceEntry(
+    legacy.programme.programmeTitle.trim() || "Programme mapping",
+    legacy.programme,
+    legacy.items
+  );
+  return { activeId: entry.id, programmes: [entry] };
+}
+
+function activeEntry(workspace: Workspace): WorkspaceEntry {
+  return workspace.programmes.find((e) => e.id === workspace.activeId) ?? workspace.programmes[0];
+}
+
+/** Write the in-progress programme and items back into the active workspace entry. */
+function syncActiveEntry(workspace: Workspace, programme: ProgrammeDetails, items: MapItem[]): Workspace {
+  return {
+    ...workspace,
+    programmes: workspace.programmes.map((e) =>
+      e.id === workspace.activeId ? { ...e, programme, items, updatedAt: new Date().toISOString() } : e
+    ),
+  };
+}
+
+function loadAuditTrail(): AuditEntry[] {
+  try {
+    const raw = localStorage.getItem(AUDIT_STORAGE_KEY);
+    const arr = raw ? (JSON.parse(raw) as unknown) : [];
+    if (!Array.isArray(arr)) return [];
+    return arr
+      .filter((e): e is Record<string, unknown> => !!e && typeof e === "object")
+      .filter((e) => typeof e.programmeId === "string" && typeof e.detail === "string")
+      .map((e) => ({
+        id: typeof e.id === "string" ? e.id : safeUUID(),
+        programmeId: e.programmeId as string,
+        at: typeof e.at === "string" ? e.at : "",
+        kind: AUDIT_KINDS.includes(e.kind as AuditKind) ? (e.kind as AuditKind) : "Edit",
+        actor: typeof e.actor === "string" ? e.actor : "",
+        detail: e.detail as string,
+        ...(typeof e.dropped === "number" && e.dropped > 0 ? { dropped: e.dropped } : {}),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function newAuditEntry(programmeId: string, kind: AuditKind, actor: string, detail: string): AuditEntry {
+  return { id: safeUUID(), programmeId, at: new Date().toISOString(), kind, actor, detail };
+}
+
+/**
+ * Append an audit entry. Beyond the limit the programme's oldest entries are
+ * dropped and counted on a Truncated entry that stays at the start of its trail.
+ */
+function addAuditEntry(list: AuditEntry[], entry: AuditEntry): AuditEntry[] {
+  const next = [...list, entry];
+  const own = next.filter((e) => e.programmeId === entry.programmeId && e.kind !== "Truncated");
+  const excess = own.length - AUDIT_TRAIL_LIMIT;
+  if (excess <= 0) return next;
+
+  const dropped = own.slice(0, excess);
+  const gone = new Set(dropped.map((e) => e.id));
+  const previous = next.find((e) => e.programmeId === entry.programmeId && e.kind === "Truncated");
+  const total = (previous?.dropped ?? 0) + excess;
+  const marker: AuditEntry = {
+    id: previous?.id ?? safeUUID(),
+    programmeId: entry.programmeId,
+    at: dropped[dropped.length - 1].at,
+    kind: "Truncated",
+    actor: "",
+    detail: `${total} earlier entr${total === 1 ? "y" : "ies"} truncated; the trail keeps the latest ${AUDIT_TRAIL_LIMIT} per programme.`,
+    dropped: total,
+  };
+  const kept = next.filter((e) => !gone.has(e.id) && e !== previous);
+  const first = kept.findIndex((e) => e.programmeId === entry.programmeId);
+  return [...kept.slice(0, first), marker, ...kept.slice(first)];
+}
+
+/**
+ * Review state for a mapping that arrives from a file or link. Sign-off made
+ * elsewhere does not carry over: it starts as a draft, keeping reviewers and comments.
+ */
+function importedReview(review: ReviewState): ReviewState {
+  return { status: "Draft", reviewers: review.reviewers, comments: review.comments };
+}
+
+/**
+ * Summarise what changed between two states of one programme for the audit
+ * trail, or null if nothing did. Review state is logged separately.
+ */
+function describeAuditEdit(
+  before: { programme: ProgrammeDetails; items: MapItem[] },
+  after: { programme: ProgrammeDetails; items: MapItem[] }
+): string | null {
+  const parts: string[] = [];
+  const label = (it: MapItem) => `“${it.name.trim() || "Untitled"}”`;
+
+  if (!sameFramework(before.programme.framework, after.programme.framework)) {
+    parts.push(`Framework changed to ${after.programme.framework.name} v${after.programme.framework.version}.`);
+  } else {
+    const diff = compareMappings(
+      { label: "before", ...before },
+      { label: "after", ...after }
+    );
+    if (diff.added.length) parts.push(`Added ${diff.added.map(label).join(", ")}.`);
+    if (diff.removed.length) parts.push(`Removed ${diff.removed.map(label).join(", ")}.`);
+    for (const r of diff.retagged) {
+      const domains = after.programme.framework.domains;
+      parts.push(`${label(r.after)}: ${r.changes.map((c) => describeDepthChange(c, domains)).join(", ")}.`);
+    }
+  }
+
+  const beforeById = new Map(before.items.map((it) => [it.id, it]));
+  const edited = after.items.filter((it) => {
+    const old = beforeById.get(it.id);
+    if (!old) return false;
+    const strip = (x: MapItem) => JSON.stringify({ ...x, domains: undefined });
+    return strip(old) !== strip(it);
+  });
+  if (edited.length) parts.push(`Edited ${edited.map(label).join(", ")}.`);
+
+  const fields = (Object.keys(after.programme) as (keyof ProgrammeDetails)[]).filter(
+    (k) => k !== "review" && k !== "framework" && JSON.stringify(before.programme[k]) !== JSON.stringify(after.programme[k])
+  );
+  if (fields.length) {
+    parts.push(`Programme details changed: ${fields.map((k) => k.replace(/([A-Z])/g, " $1").toLowerCase()).join(", ")}.`);
+  }
+
+  return parts.length ? parts.join(" ") : null;
+}
+
+function loadSnapshots(): Snapshot[] {
+  try {
+    const raw = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+    const arr = raw ? (JSON.parse(raw) as unknown) : [];
+    if (!Array.isArray(arr)) return [];
+    return arr
+      .filter((sn): sn is Record<string, unknown> => !!sn && typeof sn === "object")
+      .filter((sn) => typeof sn.programmeId === "string")
+      .map((sn) => ({
+        id: typeof sn.id === "string" ? sn.id : safeUUID(),
+        programmeId: sn.programmeId as string,
+        name: typeof sn.name === "string" ? sn.name : "Snapshot",
+        takenAt: typeof sn.takenAt === "string" ? sn.takenAt : new Date().toISOString(),
+        auto: sn.auto === true,
+        ...normalizeMapping(sn),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/** Add a snapshot, dropping the oldest automatic ones for that programme beyond the limit. */
+function addSnapshot(list: Snapshot[], snapshot: Snapshot): Snapshot[] {
+  const next = [...list, snapshot];
+  const autos = next.filter((sn) => sn.auto && sn.programmeId === snapshot.programmeId);
+  const excess = new Set(autos.slice(0, Math.max(0, autos.length - AUTO_SNAPSHOT_LIMIT)).map((sn) => sn.id));
+  return next.filter((sn) => !excess.has(sn.id));
+}
+
+/** Each domain's percentage of the summed values (all 0 when the sum is 0). */
+function toShares(values: Record<DomainKey, number>, domains: Domain[]): Record<DomainKey, number> {
+  const total = domains.reduce((sum, d) => sum + (values[d.key] ?? 0), 0);
+  return Object.fromEntries(
+    domains.map((d) => [d.key, total > 0 ? roundScore(((values[d.key] ?? 0) / total) * 100) : 0])
+  );
+}
+
+/**
+ * Validate a stored or imported target profile; targets for unknown domains
+ * are dropped and the rest rescaled to shares. Older profiles that stored
+ * absolute intensities are read as the distribution those values describe.
+ */
+function normalizeTargetProfile(raw: unknown, framework: FrameworkDefinition): TargetProfile | null {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : null;
+  if (!obj || !obj.targets || typeof obj.targets !== "object") return null;
+  if (typeof obj.frameworkId === "string" && obj.frameworkId !== framework.id) return null;
+
+  const targetsRaw = obj.targets as Record<string, unknown>;
+  const values: Record<DomainKey, number> = {};
+  for (const d of framework.domains) {
+    const v = Number(targetsRaw[d.key]);
+    values[d.key] = Number.isFinite(v) && v > 0 ? v : 0;
+  }
+  const targets = toShares(values, framework.domains);
+  return {
+    id: typeof obj.id === "string" ? obj.id : safeUUID(),
+    name: typeof obj.name === "string" && obj.name.trim() ? obj.name : "Target profile",
+    awardLevel: typeof obj.awardLevel === "string" ? obj.awardLevel : "",
+    frameworkId: framework.id,
+    targets,
+  };
+}
+
+/** Saved templates may belong to any framework, so only their shape is checked here. */
+function loadTargetProfiles(): TargetProfile[] {
+  try {
+    const raw = localStorage.getItem(TARGET_PROFILE_STORAGE_KEY);
+    const arr = raw ? (JSON.parse(raw) as unknown) : [];
+    if (!Array.isArray(arr)) return [];
+    return arr
+      .filter((p): p is Record<string, unknown> => !!p && typeof p === "object")
+      .filter((p) => typeof p.frameworkId === "string" && !!p.targets && typeof p.targets === "object")
+      .map((p) => ({
+        id: typeof p.id === "string" ? p.id : safeUUID(),
+        name: typeof p.name === "string" ? p.name : "Target profile",
+        awardLevel: typeof p.awardLevel === "string" ? p.awardLevel : "",
+        frameworkId: p.frameworkId as string,
+        targets: p.targets as Record<DomainKey, number>,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/** Compare the programme's own share distribution with the target shares. */
+function compareToTarget(
+  weightedCoverage: Record<DomainKey, number>,
+  profile: TargetProfile,
+  domains: Domain[]
+): TargetComparison {
+  const actualShares = toShares(weightedCoverage, domains);
+  const targetShares = toShares(profile.targets, domains);
+  const hasTarget = domains.some((d) => targetShares[d.key] > 0);
+  const rows = domains.map((domain) => {
+    const actual = actualShares[domain.key];
+    const target = targetShares[domain.key];
+    return { domain, actual, target, shortfall: roundScore(Math.max(0, target - actual)) };
+  });
+  const met = rows.reduce((sum, r) => sum + Math.min(r.actual, r.target), 0);
+  return {
+    rows,
+    totalShortfall: roundScore(rows.reduce((sum, r) => sum + r.shortfall, 0)),
+    percentMet: hasTarget ? Math.min(100, Math.round(met)) : 100,
+  };
+}
+
+/** Target shares expressed on the programme's own intensity scale, for drawing beside actual coverage. */
+function targetIntensities(
+  comparison: TargetComparison | null,
+  weightedCoverage: Record<DomainKey, number>
+): Map<DomainKey, number> {
+  const total = comparison ? comparison.rows.reduce((sum, r) => sum + (weightedCoverage[r.domain.key] ?? 0), 0) : 0;
+  return new Map(comparison?.rows.map((r) => [r.domain.key, roundScore((r.target / 100) * total)]) ?? []);
+}
+
+/** Domains furthest below target, largest shortfall first. */
+function domainsNeedingEffort(comparison: TargetComparison, limit = 3): TargetGap[] {
+  return comparison.rows
+    .filter((r) => r.shortfall > 0)
+    .sort((a, b) => b.shortfall - a.shortfall)
+    .slice(0, limit);
+}
+
+function describeTargetDistance(comparison: TargetComparison): string {
+  const effort = domainsNeedingEffort(comparison);
+  if (effort.length === 0) return "**Target met:** Every domain reaches its target share.";
+  return (
+    `**Distance from target:** ${comparison.percentMet}% of the target distribution is met, with a total shortfall of ${comparison.totalShortfall} percentage points. ` +
+    `Most extra effort is needed in ${effort.map((r) => `${r.domain.name} (+${r.shortfall} pts)`).join(", ")}.`
+  );
+}
+
+function formatTimestamp(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function downloadJSON(filename: string, data: unknown) {
+  downloadBlob(
+    filename,
+    new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
+  );
+}
+
+function downloadText(filename: string, text: string) {
+  downloadBlob(filename, new Blob([text], { type: "text/markdown;charset=utf-8" }));
+}
+
+function downloadCsv(filename: string, text: string) {
+  downloadBlob(filename, new Blob([text], { type: "text/csv;charset=utf-8" }));
+}
+
+function downloadHtml(filename: string, html: string) {
+  downloadBlob(filename, new Blob([html], { type: "text/html;charset=utf-8" }));
+}
+
+function serializeSvg(svg: SVGSVGElement): string {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(copy)}`;
+}
+
+function downloadSvg(filename: string, svg: SVGSVGElement) {
+  downloadBlob(filename, new Blob([serializeSvg(svg)], { type: "image/svg+xml;charset=utf-8" }));
+}
+
+/** Rasterise a chart at `scale` × its viewBox size and download it as PNG. */
+function downloadSvgAsPng(filename: string, svg: SVGSVGElement, scale = 2): Promise<void> {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: "image/svg+xml;charset=utf-8" }));
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("This browser cannot draw images."));
+        return;
+      }
+      ctx.fillStyle = "#FFFFFF";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error("The chart could not be converted to PNG."));
+          return;
+        }
+        downloadBlob(filename, blob);
+        resolve();
+      }, "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The chart could not be converted to PNG."));
+    };
+    img.src = url;
+  });
+}
+
+/** Wrap rendered report markup in a document that opens offline, with no app stylesheet. */
+function buildStandaloneHtml(title: string, bodyHtml: string): string {
+  const safeTitle = title.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${safeTitle}</title>`,
+    "</head>",
+    `<body style="margin: 0; background: #FFFFFF">${bodyHtml}</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+function buildSharePayload(programme: ProgrammeDetails, items: MapItem[]): SharePayload {
+  // Built-in frameworks are sent by reference to keep links short.
+  const builtIn = BUILT_IN_FRAMEWORKS.some((f) => sameFramework(f, programme.framework));
+  return {
+    tool: TOOL_NAME,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    framework: frameworkReference(programme.framework),
+    programme: builtIn ? { ...programme, framework: frameworkReference(programme.framework) } : programme,
+    items,
+  };
+}
+
+/** Deflate a payload and encode it as base64url for a URL fragment. */
+async function encodeSharePayload(payload: SharePayload): Promise<string> {
+  const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Reverse of `encodeSharePayload`. Throws if the text is not a valid encoded payload. */
+async function decodeSharePayload(encoded: string): Promise<unknown> {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return JSON.parse(await new Response(stream).text());
 }
 
 function safeSlug(input: string) {
@@ -213,16 +1530,47 @@ function buildMarkdown(args: {
   coverage: Record<DomainKey, number>;
   weightedCoverage: Record<DomainKey, number>;
   observations: string[];
+  exposureTotal: number;
+  alignmentFlags: AlignmentFlag[];
+  timeline: TimelinePoint[];
+  moduleRollup: ModuleRollup[];
+  indicatorCoverage: IndicatorCoverage[];
+  traceability: OutcomeTrace[];
+  domainTraceFlags: DomainTraceFlag[];
+  gapFindings: GapFinding[];
+  targetComparison: TargetComparison | null;
+  auditTrail: AuditEntry[];
 }) {
-  const { toolName, exportedAtISO, programme, items, coverage, weightedCoverage, observations } = args;
+  const {
+    toolName,
+    exportedAtISO,
+    programme,
+    items,
+    coverage,
+    weightedCoverage,
+    observations,
+    exposureTotal,
+    alignmentFlags,
+    timeline,
+    moduleRollup,
+    indicatorCoverage,
+    traceability,
+    domainTraceFlags,
+    gapFindings,
+    targetComparison,
+    auditTrail,
+  } = args;
 
+  const domains = programme.framework.domains;
   const programmeTitle = (programme.programmeTitle || "Programme mapping").trim();
   const mappingDate = (programme.mappingDate || todayISODate()).trim();
 
-  const groups: Record<MapItemType, MapItem[]> = { Module: [], Activity: [], Assessment: [] };
-  for (const it of items) groups[it.type].push(it);
+  const hierarchy = buildHierarchy(items);
+  const rollups = new Map(moduleRollup.map((r) => [r.moduleId, r]));
+  const itemsById = new Map(items.map((it) => [it.id, it]));
+  const stageLabels = new Map(programme.stages.map((st) => [st.id, st.label || st.kind]));
 
-  const totalTagged = DOMAINS.reduce((sum, d) => sum + coverage[d.key], 0);
+  const totalTagged = domains.reduce((sum, d) => sum + coverage[d.key], 0);
 
   const md: string[] = [];
   md.push(`# ${programmeTitle}`);
@@ -239,6 +1587,9 @@ function buildMarkdown(args: {
   md.push(`- **Institution:** ${programme.institution?.trim() || "—"}`);
   md.push(`- **Mapping date:** ${mappingDate}`);
   md.push(`- **Version / notes:** ${programme.version?.trim() || "—"}`);
+  md.push(
+    `- **Capability framework:** ${programme.framework.name} (${programme.framework.id}, v${programme.framework.version})`
+  );
   md.push("");
 
   md.push("## Purpose and framing");
@@ -250,10 +1601,87 @@ function buildMarkdown(args: {
 
   md.push("## Coverage intensity snapshot");
   md.push("");
+  md.push(`**Scoring model:** ${SCORING_MODEL_LABELS[programme.scoringModel]}`);
+  md.push("");
   md.push("| Domain | Tagged items | Intensity score |");
   md.push("|---|---:|---:|");
-  for (const d of DOMAINS) {
+  for (const d of domains) {
     md.push(`| ${escapePipes(d.name)} | ${coverage[d.key]} | ${weightedCoverage[d.key]} |`);
+    for (const row of indicatorCoverage.filter((r) => r.domain.key === d.key)) {
+      md.push(`| ↳ ${escapePipes(row.indicator.name)} | ${row.coverage} | ${row.weightedCoverage} |`);
+    }
+  }
+  md.push("");
+
+  if (timeline.length > 0) {
+    md.push("## Student journey timeline");
+    md.push("");
+    md.push("_Cumulative intensity score per domain at the end of each stage._");
+    md.push("");
+    md.push(`| Stage | Items | ${domains.map((d) => escapePipes(d.short)).join(" | ")} |`);
+    md.push(`|---|---:|${domains.map(() => "---:").join("|")}|`);
+    for (const pt of timeline) {
+      md.push(
+        `| ${escapePipes(pt.label)} | ${pt.itemCount} | ${domains.map((d) => pt.cumulative[d.key]).join(" | ")} |`
+      );
+    }
+    md.push("");
+  }
+
+  if (programme.targetProfile && targetComparison) {
+    const profile = programme.targetProfile;
+    md.push("## Target profile");
+    md.push("");
+    md.push(
+      `**${escapePipes(profile.name)}**${profile.awardLevel.trim() ? ` (${escapePipes(profile.awardLevel.trim())})` : ""} — ${
+        targetComparison.percentMet
+      }% met, total shortfall ${targetComparison.totalShortfall} percentage points.`
+    );
+    md.push("");
+    md.push("_Shares of the programme's total intensity, so the target applies whatever the programme's size or scoring model._");
+    md.push("");
+    md.push("| Domain | Actual share | Target share | Shortfall (points) |");
+    md.push("|---|---:|---:|---:|");
+    for (const r of targetComparison.rows) {
+      md.push(`| ${escapePipes(r.domain.name)} | ${r.actual}% | ${r.target}% | ${r.shortfall} |`);
+    }
+    md.push("");
+  }
+
+  if (programme.baseline) {
+    const baseline = programme.baseline;
+    md.push("## Cohort baseline");
+    md.push("");
+    md.push(
+      `_From ${escapePipes(baseline.source)}${baseline.cohort ? ` · ${escapePipes(baseline.cohort)}` : ""}${
+        baseline.assessedAt ? ` · assessed ${baseline.assessedAt}` : ""
+      } · scale ${baseline.scaleMin}–${baseline.scaleMax}._`
+    );
+    md.push("");
+    md.push("| Domain | Baseline | Baseline % | Intensity score |");
+    md.push("|---|---:|---:|---:|");
+    for (const d of domains) {
+      const pct = baselinePercent(baseline, d.key);
+      md.push(
+        `| ${escapePipes(d.name)} | ${baseline.scores[d.key] ?? "—"} | ${pct === undefined ? "—" : `${pct}%`} | ${weightedCoverage[d.key]} |`
+      );
+    }
+    md.push("");
+  }
+
+  md.push("## Gap findings");
+  md.push("");
+  md.push("_Rules:_");
+  for (const rule of programme.gapRules) {
+    md.push(`- **${escapePipes(rule.name)}** (${rule.severity}): ${escapePipes(describeGapRule(rule, domains))}`);
+  }
+  md.push("");
+  if (gapFindings.length === 0) {
+    md.push("_No gap rules triggered._");
+  } else {
+    md.push("| Severity | Finding | Detail |");
+    md.push("|---|---|---|");
+    for (const f of gapFindings) md.push(`| ${f.severity} | ${escapePipes(f.name)} | ${escapePipes(f.message)} |`);
   }
   md.push("");
 
@@ -262,39 +1690,81 @@ function buildMarkdown(args: {
   for (const line of observations) md.push(`- ${line}`);
   md.push("");
 
+  md.push("## AI exposure and alignment signals");
+  md.push("");
+  md.push(
+    `**Cumulative AI exposure:** ${exposureTotal} (None 0 · Permitted 1 · Encouraged 2 · Required 3 · Assessed 4, summed across all items)`
+  );
+  md.push("");
+  if (alignmentFlags.length === 0) {
+    md.push("_No items or modules have AI exposure above their weighted capability coverage._");
+  } else {
+    for (const f of alignmentFlags) md.push(`- ${escapePipes(describeAlignmentFlag(f))}`);
+  }
+  md.push("");
+
+  md.push("## Learning outcomes and traceability");
+  md.push("");
+  if (traceability.length === 0) {
+    md.push("_No learning outcomes recorded._");
+  } else {
+    const itemNames = (list: MapItem[]) =>
+      list.length ? escapePipes(list.map((it) => (it.name || "").trim() || "Untitled").join(", ")) : "—";
+    md.push("| Outcome | Level | Domain | Taught by | Assessed by | Gap |");
+    md.push("|---|---|---|---|---|---|");
+    for (const t of traceability) {
+      const module = t.outcome.moduleId ? itemsById.get(t.outcome.moduleId) : undefined;
+      const level = module ? escapePipes((module.name || "").trim() || "Untitled module") : "Programme";
+      const outcome = escapePipes(outcomeLabel(t.outcome));
+      if (t.links.length === 0) {
+        md.push(`| ${outcome} | ${level} | _No domains linked_ | — | ${itemNames(t.assessedBy)} | ${t.gap ?? "—"} |`);
+      }
+      for (const link of t.links) {
+        md.push(
+          `| ${outcome} | ${level} | ${escapePipes(link.domain.name)} | ${itemNames(link.taughtBy)} | ${itemNames(
+            link.assessedBy
+          )} | ${link.gap ?? t.gap ?? "—"} |`
+        );
+      }
+    }
+  }
+  md.push("");
+  const traceGaps = describeTraceGaps(traceability, domainTraceFlags);
+  if (traceGaps.length > 0) {
+    for (const line of traceGaps) md.push(`- ${escapePipes(line)}`);
+    md.push("");
+  }
+
   md.push("## Domain lenses");
   md.push("");
-  for (const d of DOMAINS) md.push(`- **${d.name}:** ${d.prompt}`);
+  for (const d of domains) md.push(`- **${d.name}:** ${d.prompt}`);
   md.push("");
 
   md.push("## Mapping items (QA-ready view)");
   md.push("");
   md.push(
-    "_Items are grouped by type and include domain tags. Treat tags as interpretive lenses for discussion, not performance scores._"
+    "_Items are grouped by module, with each module's activities and assessments nested beneath it. Treat tags as interpretive lenses for discussion, not performance scores._"
   );
   md.push("");
 
-  const renderType = (type: MapItemType) => {
-    const list = groups[type];
-    md.push(`### ${PLURAL_LABELS[type]}`);
-    md.push("");
-
-    if (list.length === 0) {
-      md.push(`_(No ${PLURAL_LABELS[type].toLowerCase()} added.)_`);
-      md.push("");
-      return;
-    }
-
-    md.push("| # | Item | Intensity | Domain tags | Notes |");
-    md.push("|---:|---|---|---|---|");
+  const renderTable = (list: MapItem[]) => {
+    md.push("| # | Type | Item | Stage | AI exposure | Domain depth | Notes |");
+    md.push("|---:|---|---|---|---|---|---|");
 
     list.forEach((it, idx) => {
       const name = (it.name || "").trim() || "Untitled";
-      const tags = DOMAINS.filter((d) => it.domains[d.key]).map((d) => d.short);
+      const tags = domains.filter((d) => it.domains[d.key]).map((d) => {
+        const names = (d.indicators ?? [])
+          .filter((ind) => it.indicators?.[d.key]?.includes(ind.key))
+          .map((ind) => ind.name);
+        return `${d.short} (${[it.domains[d.key], ...names].join("; ")})`;
+      });
       const notes = (it.notes || "").trim();
+      const stageId = effectiveStageId(it, itemsById);
+      const stage = (stageId && stageLabels.get(stageId)) || "—";
 
       md.push(
-        `| ${idx + 1} | ${escapePipes(name)} | ${it.weight} | ${
+        `| ${idx + 1} | ${it.type} | ${escapePipes(name)} | ${escapePipes(stage)} | ${it.exposure} | ${
           tags.length ? escapePipes(tags.join(", ")) : "_None_"
         } | ${notes ? escapePipes(notes) : "_—_"} |`
       );
@@ -303,76 +1773,3150 @@ function buildMarkdown(args: {
     md.push("");
   };
 
-  renderType("Module");
-  renderType("Activity");
-  renderType("Assessment");
-
-  md.push("## Interpretation prompts");
-  md.push("");
-  md.push(
-    `- What does the current pattern of domain tags suggest about the programme’s explicit emphasis? (${items.length} item${
-      items.length === 1 ? "" : "s"
-    }, ${totalTagged} domain tag${totalTagged === 1 ? "" : "s"})`
-  );
-  md.push(
-    "- Which domains are highly visible because they are easy to describe (or easy to evidence), rather than most important?"
-  );
-  md.push(
-    "- Which domains might be present implicitly but not visible in module/activity/assessment descriptions?"
-  );
-  md.push("- Where are students required to exercise judgement with AI, not just use tools?");
-  md.push("- What governance or ethical risks are “owned” nowhere in the programme design?");
-  md.push("- What would it look like to strengthen one underrepresented domain without increasing workload?");
+  md.push(`### ${PLURAL_LABELS.Module}`);
   md.push("");
 
-  md.push("## Use and limitations");
+  if (hierarchy.modules.length === 0) {
+    md.push(`_(No ${PLURAL_LABELS.Module.toLowerCase()} added.)_`);
+    md.push("");
+  }
+
+  for (const { module, children } of hierarchy.modules) {
+    const rollup = rollups.get(module.id);
+    md.push(`#### ${escapePipes((module.name || "").trim() || "Untitled module")}`);
+    md.push("");
+    if (rollup) {
+      const profile = domains.filter((d) => rollup.weightedCoverage[d.key] > 0)
+        .map((d) => `${d.short} ${rollup.weightedCoverage[d.key]}`)
+        .join(", ");
+      md.push(
+        `_Module capability profile (module + ${children.length} nested item${
+          children.length === 1 ? "" : "s"
+        }):_ ${profile || "no domain tags"}`
+      );
+      md.push("");
+    }
+    renderTable([module, ...children]);
+  }
+
+  if (hierarchy.unassigned.length > 0) {
+    md.push("### Unassigned activities and assessments");
+    md.push("");
+    renderTable(hierarchy.unassigned);
+  }
+
+  md.push("## Governance notes");
   md.push("");
-  md.push(LIMITATIONS_TEXT);
+  md.push("### Programme");
   md.push("");
-  md.push(
-    "_Next step (optional): paste this export into programme documentation (or QA/review notes), then revisit during review cycles._"
-  );
+  const programmeNotes = (Object.keys(GOVERNANCE_NOTE_LABELS) as GovernanceNoteField[]).filter((f) => programme[f]?.trim());
+  if (programmeNotes.length === 0) md.push("_No programme-level governance notes recorded._");
+  for (const f of programmeNotes) md.push(`- **${GOVERNANCE_NOTE_LABELS[f]}:** ${escapePipes(programme[f]!.trim())}`);
+  md.push("");
+
+  const register = buildGovernanceRegister(items, todayISODate());
+  md.push("### Governance register");
+  md.push("");
+  if (register.length === 0) {
+    md.push("_No item-level governance notes recorded._");
+    md.push("");
+  } else {
+    md.push("| Item | Type | Risks or concerns | Risk owner | Review due |");
+    md.push("|---|---|---|---|---|");
+    for (const r of register) {
+      md.push(
+        `| ${escapePipes(r.name.trim() || "Untitled")} | ${r.type} | ${r.risks ? escapePipes(r.risks.trim()) : "_—_"} | ${
+          r.riskOwner ? escapePipes(r.riskOwner.trim()) : r.risks ? "**Unowned**" : "_—_"
+        } | ${r.reviewDue ? `${r.reviewDue}${r.overdue ? " (overdue)" : ""}` : "_—_"} |`
+      );
+    }
+    md.push("");
+    for (const r of register) {
+      const fields = (["aiInvolvement", "assumptions", "rationale", "reviewNotes"] as const).filter((f) => r[f]?.trim());
+      if (fields.length === 0) continue;
+      md.push(`#### ${escapePipes(r.name.trim() || "Untitled")}`);
+      md.push("");
+      for (const f of fields) md.push(`- **${GOVERNANCE_NOTE_LABELS[f]}:** ${escapePipes(r[f]!.trim())}`);
+      md.push("");
+    }
+  }
+
+  const { review } = programme;
+  md.push("## Review and sign-off");
+  md.push("");
+  const statusSetBy = [review.statusChangedBy, review.statusChangedAt && formatTimestamp(review.statusChangedAt)]
+    .filter(Boolean)
+    .join(", ");
+  md.push(`**Status:** ${review.status}${statusSetBy ? ` — ${escapePipes(statusSetBy)}` : ""}`);
+  md.push("");
+  md.push(
+    `**Reviewers:** ${
+      review.reviewers.length
+        ? review.reviewers.map((r) => escapePipes(r.role.trim() ? `${r.name} (${r.role})` : r.name)).join(", ")
+        : "_None named._"
+    }`
+  );
+  md.push("");
+  if (review.comments.length) {
+    md.push("### Item comments");
+    md.push("");
+    for (const it of items) {
+      const comments = review.comments.filter((c) => c.itemId === it.id);
+      if (comments.length === 0) continue;
+      md.push(`- **${escapePipes(it.name.trim() || "Untitled")}**`);
+      for (const c of comments) {
+        md.push(`  - ${escapePipes(c.author || "Anonymous")}, ${formatTimestamp(c.at)}: ${escapePipes(c.text.trim())}`);
+      }
+    }
+    md.push("");
+  }
+  md.push("### Audit trail");
+  md.push("");
+  if (auditTrail.length === 0) {
+    md.push("_No audit entries recorded._");
+  } else {
+    md.push("| When | Event | By | Detail |");
+    md.push("|---|---|---|---|");
+    for (const e of auditTrail) {
+      md.push(`| ${formatTimestamp(e.at)} | ${e.kind} | ${escapePipes(e.actor || "—")} | ${escapePipes(e.detail)} |`);
+    }
+  }
+  md.push("");
+
+  md.push("## Interpretation prompts");
+  md.push("");
+  md.push(
+    `- What does the current pattern of domain tags suggest about the programme’s explicit emphasis? (${items.length} item${
+      items.length === 1 ? "" : "s"
+    }, ${totalTagged} domain tag${totalTagged === 1 ? "" : "s"})`
+  );
+  md.push(
+    "- Which domains are highly visible because they are easy to describe (or easy to evidence), rather than most important?"
+  );
+  md.push(
+    "- Which domains might be present implicitly but not visible in module/activity/assessment descriptions?"
+  );
+  md.push("- Where are students required to exercise judgement with AI, not just use tools?");
+  md.push("- What governance or ethical risks are “owned” nowhere in the programme design?");
+  md.push("- What would it look like to strengthen one underrepresented domain without increasing workload?");
+  md.push("");
+
+  md.push("## Use and limitations");
+  md.push("");
+  md.push(LIMITATIONS_TEXT);
+  md.push("");
+  md.push(
+    "_Next step (optional): paste this export into programme documentation (or QA/review notes), then revisit during review cycles._"
+  );
+  md.push("");
+
+  return md.join("\n");
+}
+
+/** Case- and whitespace-insensitive form of a name, for matching items across mappings. */
+function normalizedName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Compare two mappings. Items are matched by id, then by normalized name
+ * (within the same type) for anything left unmatched.
+ */
+function compareMappings(before: ComparisonSide, after: ComparisonSide): MappingComparison {
+  // Both sides are scored with the later mapping's model so deltas are like-for-like.
+  // Callers check that both sides use the same framework (see sameFramework).
+  const domains = after.programme.framework.domains;
+  const model = after.programme.scoringModel;
+  const a = tallyCoverage(before.items, domains, makeItemScorer(before.items, model));
+  const b = tallyCoverage(after.items, domains, makeItemScorer(after.items, model));
+
+  const domainDeltas: DomainDelta[] = domains.map((d) => ({
+    key: d.key,
+    coverageBefore: a.coverage[d.key],
+    coverageAfter: b.coverage[d.key],
+    weightedBefore: a.weightedCoverage[d.key],
+    weightedAfter: b.weightedCoverage[d.key],
+  }));
+
+  const pairs: { before: MapItem; after: MapItem }[] = [];
+  const unmatchedBefore = new Map(before.items.map((it) => [it.id, it]));
+  const unmatchedAfter: MapItem[] = [];
+
+  for (const it of after.items) {
+    const match = unmatchedBefore.get(it.id);
+    if (match) {
+      pairs.push({ before: match, after: it });
+      unmatchedBefore.delete(it.id);
+    } else {
+      unmatchedAfter.push(it);
+    }
+  }
+
+  const added: MapItem[] = [];
+  for (const it of unmatchedAfter) {
+    const key = normalizedName(it.name);
+    const match = key
+      ? [...unmatchedBefore.values()].find((old) => old.type === it.type && normalizedName(old.name) === key)
+      : undefined;
+    if (match) {
+      pairs.push({ before: match, after: it });
+      unmatchedBefore.delete(match.id);
+    } else {
+      added.push(it);
+    }
+  }
+
+  const retagged = pairs
+    .map(({ before: old, after: next }) => ({
+      before: old,
+      after: next,
+      changes: domains
+        .filter((d) => (old.domains[d.key] ?? null) !== (next.domains[d.key] ?? null))
+        .map((d) => ({
+          key: d.key,
+          from: old.domains[d.key] ?? null,
+          to: next.domains[d.key] ?? null,
+        })),
+    }))
+    .filter((r) => r.changes.length > 0);
+
+  return { domainDeltas, added, removed: [...unmatchedBefore.values()], retagged };
+}
+
+function formatDelta(before: number, after: number): string {
+  const diff = roundScore(after - before);
+  return diff > 0 ? `+${diff}` : `${diff}`;
+}
+
+function sameFramework(a: FrameworkDefinition, b: FrameworkDefinition): boolean {
+  return a.id === b.id && a.version === b.version;
+}
+
+function describeDepthChange(c: DepthChange, domains: Domain[]): string {
+  const d = domains.find((dom) => dom.key === c.key);
+  return `${d?.short ?? c.key}: ${c.from ?? "none"} → ${c.to ?? "none"}`;
+}
+
+function buildComparisonMarkdown(args: {
+  toolName: string;
+  exportedAtISO: string;
+  before: ComparisonSide;
+  after: ComparisonSide;
+  comparison: MappingComparison;
+}) {
+  const { toolName, exportedAtISO, before, after, comparison } = args;
+  const domains = after.programme.framework.domains;
+  const itemLabel = (it: MapItem) => `${it.type}: ${escapePipes((it.name || "").trim() || "Untitled")}`;
+
+  const md: string[] = [];
+  md.push("## Changes since last review");
+  md.push("");
+  md.push(`**Tool:** ${toolName}`);
+  md.push(`**Exported:** ${exportedAtISO}`);
+  md.push(
+    `**Compared:** ${escapePipes(before.label)} (${before.programme.version || "—"}) → ${escapePipes(after.label)} (${
+      after.programme.version || "—"
+    })`
+  );
+  md.push(`**Scoring model:** ${SCORING_MODEL_LABELS[after.programme.scoringModel]}`);
+  md.push("");
+
+  md.push("### Domain coverage changes");
+  md.push("");
+  md.push("| Domain | Tagged items | Change | Intensity score | Change |");
+  md.push("|---|---:|---:|---:|---:|");
+  for (const delta of comparison.domainDeltas) {
+    const d = domains.find((dom) => dom.key === delta.key);
+    md.push(
+      `| ${escapePipes(d?.name ?? delta.key)} | ${delta.coverageBefore} → ${delta.coverageAfter} | ${formatDelta(
+        delta.coverageBefore,
+        delta.coverageAfter
+      )} | ${delta.weightedBefore} → ${delta.weightedAfter} | ${formatDelta(delta.weightedBefore, delta.weightedAfter)} |`
+    );
+  }
+  md.push("");
+
+  md.push(`### Items added (${comparison.added.length})`);
+  md.push("");
+  if (comparison.added.length === 0) md.push("_None._");
+  for (const it of comparison.added) md.push(`- ${itemLabel(it)}`);
+  md.push("");
+
+  md.push(`### Items removed (${comparison.removed.length})`);
+  md.push("");
+  if (comparison.removed.length === 0) md.push("_None._");
+  for (const it of comparison.removed) md.push(`- ${itemLabel(it)}`);
+  md.push("");
+
+  md.push(`### Items retagged (${comparison.retagged.length})`);
+  md.push("");
+  if (comparison.retagged.length === 0) md.push("_None._");
+  for (const r of comparison.retagged) {
+    md.push(`- ${itemLabel(r.after)} — ${r.changes.map((c) => describeDepthChange(c, domains)).join("; ")}`);
+  }
   md.push("");
 
   return md.join("\n");
 }
 
+/**
+ * Parse delimited text (CSV or tab-separated) following RFC 4180 quoting:
+ * quoted fields may contain delimiters, doubled quotes and newlines.
+ */
+function parseDelimited(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", "\t", ";"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (including a UTF-8 BOM-only first cell).
+  return rows
+    .map((r, idx) => (idx === 0 && r[0] ? [r[0].replace(/^\uFEFF/, ""), ...r.slice(1)] : r))
+    .filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+/** What a spreadsheet column is imported as ("" = ignored). */
+type CsvTarget = "" | "name" | "type" | "notes" | "weight" | DomainKey;
+
+const CSV_FIELD_LABELS: Record<"name" | "type" | "notes" | "weight", string> = {
+  name: "Name",
+  type: "Type",
+  notes: "Notes",
+  weight: "Weight (Low / Medium / High)",
+};
+
+/** Guess a column's target from its header text. */
+function guessCsvTarget(header: string, domains: Domain[]): CsvTarget {
+  const h = normalizedName(header);
+  if (!h) return "";
+  if (h === "name" || h.includes("title") || h.includes("module name") || h === "item") return "name";
+  if (h === "type" || h.includes("item type")) return "type";
+  if (h.includes("note") || h.includes("description")) return "notes";
+  if (h.includes("weight") || h.includes("intensity")) return "weight";
+  const domain = domains.find(
+    (d) => h === d.key || h === d.short.toLowerCase() || h === d.name.toLowerCase()
+  );
+  return domain ? domain.key : "";
+}
+
+type CsvRowResult = {
+  rowNumber: number;
+  raw: Record<string, unknown> | null;
+  errors: string[];
+  warnings: string[];
+};
+
+/**
+ * Turn spreadsheet rows into raw item records for normalizeItems, with
+ * per-row validation. Rows with errors are skipped; warnings note coercions.
+ */
+function mapCsvRows(rows: string[][], targets: CsvTarget[], domains: Domain[]): CsvRowResult[] {
+  return rows.map((cells, idx) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const raw: Record<string, unknown> = {};
+    const tags: Record<string, unknown> = {};
+
+    targets.forEach((target, col) => {
+      // Undo the apostrophe this tool's CSV export adds to formula-like cells.
+      const value = (cells[col] ?? "").trim().replace(/^'(?=[=+\-@])/, "");
+      if (!target) return;
+
+      if (target === "name" || target === "notes") {
+        raw[target] = value;
+      } else if (target === "type") {
+        const type = ["Module", "Activity", "Assessment"].find((t) => t.toLowerCase() === value.toLowerCase());
+        if (type) raw.type = type;
+        else warnings.push(value ? `Unknown type “${value}”; imported as Module.` : "No type; imported as Module.");
+      } else if (target === "weight") {
+        const weight = Object.keys(LEGACY_WEIGHT_DEPTH).find((w) => w.toLowerCase() === value.toLowerCase());
+        if (weight) raw.weight = weight;
+        else if (value) warnings.push(`Unknown weight “${value}”; yes-style domain cells use Developed.`);
+      } else {
+        const depth = parseDepthCell(value);
+        const domain = domains.find((d) => d.key === target);
+        if (depth === undefined) warnings.push(`${domain?.short ?? target}: “${value}” not recognised; left untagged.`);
+        else if (depth !== null) tags[target] = depth;
+      }
+    });
+
+    if (!String(raw.name ?? "").trim()) errors.push("Missing name.");
+    raw.domains = tags;
+
+    return { rowNumber: idx + 2, raw: errors.length ? null : raw, errors, warnings };
+  });
+}
+
+const PROGRAMME_TEXT_FIELDS = [
+  "programmeTitle",
+  "awardLevel",
+  "department",
+  "institution",
+  "mappingDate",
+  "version",
+  "aiInvolvement",
+  "assumptions",
+  "risks",
+  "rationale",
+  "reviewNotes",
+] as const;
+
+const PROGRAMME_FIELDS = [
+  ...PROGRAMME_TEXT_FIELDS,
+  "stages",
+  "scoringModel",
+  "framework",
+  "outcomes",
+  "gapRules",
+  "targetProfile",
+  "baseline",
+  "review",
+];
+
+/** `weight` is the item-wide Low/Medium/High value of older files. */
+const ITEM_FIELDS = [
+  "id",
+  "type",
+  "name",
+  "notes",
+  "domains",
+  "indicators",
+  "exposure",
+  "credits",
+  "weighting",
+  "contactHours",
+  "stageId",
+  "parentId",
+  "outcomeIds",
+  "governance",
+  "weight",
+];
+
+/**
+ * Check a mapping file (`ExportPayload`) field by field and report everything
+ * lenient import would repair. The repaired mapping is what `normalizeMapping`
+ * makes of the file, so the report matches what is imported. Returns a
+ * message when the file cannot be imported at all.
+ */
+function validateExportPayload(raw: unknown): ExportValidation | { error: string } {
+  const obj = asRecord(raw);
+  if (!obj) return { error: "The file is not a JSON object." };
+  const issues: ImportIssue[] = [];
+
+  let version = "legacy";
+  if (obj.schemaVersion === undefined) {
+    issues.push({ path: "$.schemaVersion", kind: "Coerced", detail: "missing; read as a legacy export" });
+  } else {
+    version = String(obj.schemaVersion);
+    if (!EXPORT_MAJOR_VERSIONS.includes(version.split(".")[0])) {
+      return {
+        error: `Schema version “${version}” is not supported (this tool reads ${EXPORT_MAJOR_VERSIONS.map((v) => `${v}.x`).join(", ")}).`,
+      };
+    }
+  }
+  reportUnknownFields(
+    obj,
+    ["tool", "schemaVersion", "exportedAt", "framework", "programme", "items", "governance", "audit", "analytics"],
+    "$",
+    issues
+  );
+
+  const itemsRaw = Array.isArray(obj.items) ? (obj.items as unknown[]) : [];
+  if (!itemsRaw.some((it) => asRecord(it))) return { error: "The file has no items." };
+
+  const p = asRecord(obj.programme);
+  if (!p) {
+    issues.push({ path: "$.programme", kind: "Dropped", detail: "expected an object; programme details reset to defaults" });
+  }
+  const prog = p ?? {};
+  const framework = resolveFramework(prog.framework) ?? DEFAULT_FRAMEWORK;
+  const domainKeys = new Set(framework.domains.map((d) => d.key));
+  reportUnknownFields(prog, PROGRAMME_FIELDS, "$.programme", issues);
+
+  for (const key of PROGRAMME_TEXT_FIELDS) {
+    const v = prog[key];
+    if (v !== undefined && typeof v !== "string") {
+      issues.push({ path: `$.programme.${key}`, kind: "Dropped", detail: `expected text, found ${JSON.stringify(v)}` });
+    }
+  }
+  if (prog.scoringModel !== undefined && coerceScoringModel(prog.scoringModel) !== prog.scoringModel) {
+    issues.push({ path: "$.programme.scoringModel", kind: "Coerced", detail: `${JSON.stringify(prog.scoringModel)} read as simple` });
+  }
+
+  const stageIds = new Set<string>();
+  readList(prog, "stages", "$.programme", issues).forEach((raw, i) => {
+    const path = `$.programme.stages[${i}]`;
+    const st = asRecord(raw);
+    if (!st) {
+      issues.push({ path, kind: "Dropped", detail: "expected a stage object; stage dropped" });
+      return;
+    }
+    reportUnknownFields(st, ["id", "kind", "label"], path, issues);
+    checkId(st.id, stageIds, path, issues);
+    if (coerceStageKind(st.kind) !== st.kind) {
+      issues.push({ path: `${path}.kind`, kind: "Coerced", detail: `${JSON.stringify(st.kind)} read as Year` });
+    }
+    if (typeof st.label !== "string") {
+      issues.push({ path: `${path}.label`, kind: "Coerced", detail: "missing; a default label is used" });
+    }
+  });
+
+  const outcomeIds = new Set<string>();
+  const outcomeModules: { path: string; moduleId: string }[] = [];
+  readList(prog, "outcomes", "$.programme", issues).forEach((raw, i) => {
+    const path = `$.programme.outcomes[${i}]`;
+    const o = asRecord(raw);
+    if (!o) {
+      issues.push({ path, kind: "Dropped", detail: "expected an outcome object; outcome dropped" });
+      return;
+    }
+    reportUnknownFields(o, ["id", "code", "text", "moduleId", "domains"], path, issues);
+    checkId(o.id, outcomeIds, path, issues);
+    if (typeof o.moduleId === "string") outcomeModules.push({ path: `${path}.moduleId`, moduleId: o.moduleId });
+    readList(o, "domains", path, issues).forEach((k, j) => {
+      if (typeof k !== "string" || !domainKeys.has(k)) {
+        issues.push({ path: `${path}.domains[${j}]`, kind: "Dropped", detail: `${JSON.stringify(k)} is not a domain in the active framework` });
+      }
+    });
+  });
+
+  if (prog.gapRules !== undefined) {
+    if (!Array.isArray(prog.gapRules)) {
+      issues.push({ path: "$.programme.gapRules", kind: "Coerced", detail: "expected a list; the default rules are used" });
+    } else {
+      const lost = prog.gapRules.length - normalizeGapRules(prog.gapRules, framework.domains).length;
+      if (lost > 0) {
+        issues.push({ path: "$.programme.gapRules", kind: "Dropped", detail: `${lost} rule${lost === 1 ? "" : "s"} not recognised for this framework` });
+      }
+    }
+  }
+  if (prog.targetProfile !== undefined && !normalizeTargetProfile(prog.targetProfile, framework)) {
+    issues.push({ path: "$.programme.targetProfile", kind: "Dropped", detail: "not a target profile for this framework" });
+  }
+  if (prog.baseline !== undefined && !normalizeBaseline(prog.baseline, framework.domains)) {
+    issues.push({ path: "$.programme.baseline", kind: "Dropped", detail: "not a cohort baseline" });
+  }
+  const review = asRecord(prog.review);
+  if (prog.review !== undefined && !review) {
+    issues.push({ path: "$.programme.review", kind: "Dropped", detail: "expected an object; the mapping is read as a Draft" });
+  }
+  if (review && !MAPPING_STATUSES.includes(review.status as MappingStatus)) {
+    issues.push({ path: "$.programme.review.status", kind: "Coerced", detail: `${JSON.stringify(review.status)} read as Draft` });
+  }
+
+  const itemIds = new Set<string>();
+  const moduleIds = new Set<string>();
+  const parents: { path: string; parentId: string; type: MapItemType }[] = [];
+  itemsRaw.forEach((raw, i) => {
+    const path = `$.items[${i}]`;
+    const it = asRecord(raw);
+    if (!it) {
+      issues.push({ path, kind: "Dropped", detail: "expected an item object; item dropped" });
+      return;
+    }
+    reportUnknownFields(it, ITEM_FIELDS, path, issues);
+    const id = checkId(it.id, itemIds, path, issues);
+
+    const type = coerceMapItemType(it.type);
+    if (type !== it.type) issues.push({ path: `${path}.type`, kind: "Coerced", detail: `${JSON.stringify(it.type)} read as Module` });
+    if (type === "Module" && id) moduleIds.add(id);
+
+    for (const key of ["name", "notes"] as const) {
+      if (it[key] !== undefined && typeof it[key] !== "string") {
+        issues.push({ path: `${path}.${key}`, kind: "Dropped", detail: `expected text, found ${JSON.stringify(it[key])}` });
+      }
+    }
+    if (it.exposure !== undefined && coerceExposure(it.exposure) !== it.exposure) {
+      issues.push({ path: `${path}.exposure`, kind: "Coerced", detail: `${JSON.stringify(it.exposure)} read as None` });
+    }
+    for (const key of ["credits", "weighting", "contactHours"] as const) {
+      const v = it[key];
+      if (v === undefined || v === null) continue;
+      const n = coerceOptionalNumber(v);
+      if (n === undefined) issues.push({ path: `${path}.${key}`, kind: "Dropped", detail: `expected a non-negative number, found ${JSON.stringify(v)}` });
+      else if (n !== v) issues.push({ path: `${path}.${key}`, kind: "Coerced", detail: `text “${String(v)}” read as ${n}` });
+    }
+
+    const legacyDepth = typeof it.weight === "string" && LEGACY_WEIGHT_DEPTH[it.weight] ? LEGACY_WEIGHT_DEPTH[it.weight] : "Developed";
+    if (it.weight !== undefined) {
+      issues.push({ path: `${path}.weight`, kind: "Coerced", detail: "item-wide weight converted to per-domain depths" });
+    }
+    const tagsRaw = it.domains === undefined ? {} : asRecord(it.domains);
+    if (!tagsRaw) issues.push({ path: `${path}.domains`, kind: "Dropped", detail: "expected an object of domain depths" });
+    const tagged = new Set<string>();
+    for (const [key, v] of Object.entries(tagsRaw ?? {})) {
+      if (!domainKeys.has(key)) {
+        issues.push({ path: `${path}.domains.${key}`, kind: "Dropped", detail: "domain not in the active framework" });
+      } else if (v === true) {
+        issues.push({ path: `${path}.domains.${key}`, kind: "Coerced", detail: `true read as ${legacyDepth}` });
+        tagged.add(key);
+      } else if (coerceDepth(v)) {
+        tagged.add(key);
+      } else if (v !== false && v !== null) {
+        issues.push({ path: `${path}.domains.${key}`, kind: "Dropped", detail: `depth ${JSON.stringify(v)} not recognised` });
+      }
+    }
+
+    const indicatorsRaw = it.indicators === undefined ? {} : asRecord(it.indicators);
+    if (!indicatorsRaw) issues.push({ path: `${path}.indicators`, kind: "Dropped", detail: "expected an object of indicator lists" });
+    for (const [key, keys] of Object.entries(indicatorsRaw ?? {})) {
+      const domain = framework.domains.find((d) => d.key === key);
+      if (!domain || !tagged.has(key) || !Array.isArray(keys)) {
+        issues.push({ path: `${path}.indicators.${key}`, kind: "Dropped", detail: domain ? "domain is not tagged on this item" : "domain not in the active framework" });
+        continue;
+      }
+      for (const k of keys) {
+        if (!(domain.indicators ?? []).some((ind) => ind.key === k)) {
+          issues.push({ path: `${path}.indicators.${key}`, kind: "Dropped", detail: `indicator ${JSON.stringify(k)} not in ${domain.name}` });
+        }
+      }
+    }
+
+    if (it.governance !== undefined) {
+      const governance = asRecord(it.governance);
+      if (!governance) issues.push({ path: `${path}.governance`, kind: "Dropped", detail: "expected an object of governance notes" });
+      reportUnknownFields(governance ?? {}, Object.keys(ITEM_GOVERNANCE_LABELS), `${path}.governance`, issues);
+      for (const [key, v] of Object.entries(governance ?? {})) {
+        if (key in ITEM_GOVERNANCE_LABELS && typeof v !== "string") {
+          issues.push({ path: `${path}.governance.${key}`, kind: "Dropped", detail: `expected text, found ${JSON.stringify(v)}` });
+        }
+      }
+    }
+
+    if (typeof it.stageId === "string" && !stageIds.has(it.stageId)) {
+      issues.push({ path: `${path}.stageId`, kind: "Dropped", detail: `no stage with id “${it.stageId}”` });
+    }
+    if (typeof it.parentId === "string") parents.push({ path: `${path}.parentId`, parentId: it.parentId, type });
+    if (it.outcomeIds !== undefined) {
+      const refs = Array.isArray(it.outcomeIds) ? (it.outcomeIds as unknown[]) : [];
+      if (type !== "Assessment" && refs.length) {
+        issues.push({ path: `${path}.outcomeIds`, kind: "Dropped", detail: "only Assessments record the outcomes they assess" });
+      } else {
+        refs.forEach((ref, j) => {
+          if (typeof ref !== "string" || !outcomeIds.has(ref)) {
+            issues.push({ path: `${path}.outcomeIds[${j}]`, kind: "Dropped", detail: `no outcome with id ${JSON.stringify(ref)}` });
+          }
+        });
+      }
+    }
+  });
+
+  for (const ref of parents) {
+    if (ref.type === "Module") issues.push({ path: ref.path, kind: "Dropped", detail: "a Module cannot sit inside another item" });
+    else if (!moduleIds.has(ref.parentId)) issues.push({ path: ref.path, kind: "Dropped", detail: `no module with id “${ref.parentId}”` });
+  }
+  for (const ref of outcomeModules) {
+    if (!moduleIds.has(ref.moduleId)) {
+      issues.push({ path: ref.path, kind: "Coerced", detail: `no module with id “${ref.moduleId}”; read as a programme-level outcome` });
+    }
+  }
+
+  return { version, issues, ...normalizeMapping(obj) };
+}
+
+/** Report a missing or already-used id (a new one is assigned on import) and return the id kept, if any. */
+function checkId(v: unknown, seen: Set<string>, path: string, issues: ImportIssue[]): string | null {
+  if (typeof v !== "string") {
+    issues.push({ path: `${path}.id`, kind: "Coerced", detail: "missing; a new id is assigned" });
+    return null;
+  }
+  if (seen.has(v)) {
+    issues.push({ path: `${path}.id`, kind: "Duplicate id", detail: `“${v}” is already used; a new id is assigned` });
+    return null;
+  }
+  seen.add(v);
+  return v;
+}
+
+/** Join two notes, skipping empty or repeated text. */
+function combineText(a: string, b: string): string {
+  if (!b.trim() || a.includes(b.trim())) return a;
+  if (!a.trim() || b.includes(a.trim())) return b;
+  return `${a.trimEnd()}\n\n${b.trim()}`;
+}
+
+function deeperDepth(a: DomainDepth | null, b: DomainDepth | null): DomainDepth | null {
+  if (!a) return b;
+  if (!b) return a;
+  return DEPTH_MAP[a] >= DEPTH_MAP[b] ? a : b;
+}
+
+function defaultMergeChoice(c: MergeConflict): MergeChoice {
+  return c.canCombine ? "combine" : "mine";
+}
+
+/**
+ * Match imported items to current ones by id, then (for items whose id is not
+ * in the other file) by normalized name within the same type, and list every
+ * field that differs. Unmatched imported items are added.
+ */
+function planMerge(
+  mine: { programme: ProgrammeDetails; items: MapItem[] },
+  theirs: { programme: ProgrammeDetails; items: MapItem[] }
+): MergePlan {
+  const mineById = new Map(mine.items.map((it) => [it.id, it]));
+  const theirIds = new Set(theirs.items.map((it) => it.id));
+  const matched = new Set<string>();
+  const matches: MergePlan["matches"] = [];
+  const added: MapItem[] = [];
+
+  for (const it of theirs.items) {
+    const byId = mineById.get(it.id);
+    if (byId) {
+      matched.add(byId.id);
+      matches.push({ mine: byId, theirs: it, byName: false });
+    }
+  }
+  for (const it of theirs.items) {
+    if (mineById.has(it.id)) continue;
+    const key = normalizedName(it.name);
+    const byName = key
+      ? mine.items.find(
+          (m) => !matched.has(m.id) && !theirIds.has(m.id) && m.type === it.type && normalizedName(m.name) === key
+        )
+      : undefined;
+    if (byName) {
+      matched.add(byName.id);
+      matches.push({ mine: byName, theirs: it, byName: true });
+    } else {
+      added.push(it);
+    }
+  }
+
+  const domains = mine.programme.framework.domains;
+  const conflicts: MergeConflict[] = [];
+  for (const { mine: a, theirs: b } of matches) {
+    const push = (field: string, label: string, mineValue: string, theirsValue: string, canCombine: boolean) => {
+      if (mineValue !== theirsValue) {
+        conflicts.push({ id: `${a.id}:${field}`, itemId: a.id, field, label, mine: mineValue, theirs: theirsValue, canCombine });
+      }
+    };
+    push("name", "Name", a.name, b.name, false);
+    push("type", "Type", a.type, b.type, false);
+    push("notes", "Notes", a.notes, b.notes, true);
+    push("exposure", "AI exposure", a.exposure, b.exposure, true);
+    push("size", ITEM_SIZE_LABELS[a.type], String(itemSizeValue(a) ?? ""), String(itemSizeValue(b) ?? ""), false);
+    for (const d of domains) {
+      push(`domain:${d.key}`, d.name, a.domains[d.key] ?? "", b.domains[d.key] ?? "", true);
+    }
+    // A governance field empty on either side is not a conflict: the filled one is kept.
+    for (const field of Object.keys(ITEM_GOVERNANCE_LABELS) as (keyof ItemGovernance)[]) {
+      const theirsValue = b.governance?.[field] ?? "";
+      if (!theirsValue.trim() || !a.governance?.[field]?.trim()) continue;
+      const canCombine = field !== "riskOwner" && field !== "reviewDue";
+      push(`governance:${field}`, ITEM_GOVERNANCE_LABELS[field], a.governance?.[field] ?? "", theirsValue, canCombine);
+    }
+  }
+  for (const field of Object.keys(GOVERNANCE_NOTE_LABELS) as GovernanceNoteField[]) {
+    const a = mine.programme[field] ?? "";
+    const b = theirs.programme[field] ?? "";
+    if (a !== b && b.trim()) {
+      conflicts.push({ id: `programme:${field}`, field, label: GOVERNANCE_NOTE_LABELS[field], mine: a, theirs: b, canCombine: true });
+    }
+  }
+
+  return { matches, added, conflicts };
+}
+
+/**
+ * Apply a merge plan with the user's choice for each conflict (unchosen
+ * conflicts use `defaultMergeChoice`). Stages and outcomes are matched by id,
+ * then by label or code, and references in imported items are remapped. A
+ * summary of the merge is appended to the review notes.
+ */
+function applyMerge(
+  mine: { programme: ProgrammeDetails; items: MapItem[] },
+  theirs: { programme: ProgrammeDetails; items: MapItem[] },
+  plan: MergePlan,
+  choices: Record<string, MergeChoice>,
+  source: string
+): { programme: ProgrammeDetails; items: MapItem[] } {
+  const choiceOf = (c: MergeConflict) => choices[c.id] ?? defaultMergeChoice(c);
+  const conflictsById = new Map(plan.conflicts.map((c) => [c.id, c]));
+  const pick = <T,>(id: string, mineValue: T, theirsValue: T, combine: () => T): T => {
+    const c = conflictsById.get(id);
+    if (!c) return mineValue;
+    const choice = choiceOf(c);
+    return choice === "mine" ? mineValue : choice === "theirs" ? theirsValue : combine();
+  };
+
+  const stageMap = new Map<string, string>();
+  const stages = [...mine.programme.stages];
+  for (const st of theirs.programme.stages) {
+    const match =
+      stages.find((m) => m.id === st.id) ?? stages.find((m) => normalizedName(m.label) === normalizedName(st.label));
+    if (match) stageMap.set(st.id, match.id);
+    else {
+      stages.push(st);
+      stageMap.set(st.id, st.id);
+    }
+  }
+
+  const itemMap = new Map<string, string>(plan.matches.map((m) => [m.theirs.id, m.mine.id]));
+  for (const it of plan.added) itemMap.set(it.id, it.id);
+
+  const outcomeMap = new Map<string, string>();
+  const outcomes = [...mine.programme.outcomes];
+  const outcomeKey = (o: LearningOutcome) => normalizedName(o.code || o.text);
+  for (const o of theirs.programme.outcomes) {
+    const match = outcomes.find((m) => m.id === o.id) ?? outcomes.find((m) => outcomeKey(m) && outcomeKey(m) === outcomeKey(o));
+    if (match) outcomeMap.set(o.id, match.id);
+    else {
+      const moduleId = o.moduleId ? itemMap.get(o.moduleId) : undefined;
+      const next: LearningOutcome = { ...o };
+      delete next.moduleId;
+      outcomes.push(moduleId ? { ...next, moduleId } : next);
+      outcomeMap.set(o.id, o.id);
+    }
+  }
+  const mapOutcomeIds = (ids: string[] | undefined) =>
+    (ids ?? []).map((id) => outcomeMap.get(id)).filter((id): id is string => !!id);
+
+  const domains = mine.programme.framework.domains;
+  const theirsFor = new Map(plan.matches.map((m) => [m.mine.id, m.theirs]));
+  const items = mine.items.map((a) => {
+    const b = theirsFor.get(a.id);
+    if (!b) return a;
+    const key = (field: string) => `${a.id}:${field}`;
+    const type = pick(key("type"), a.type, b.type, () => a.type);
+    const size = pick(key("size"), itemSizeValue(a), itemSizeValue(b), () => itemSizeValue(a));
+    const tags = emptyDomains();
+    const indicators: Record<DomainKey, string[]> = {};
+    for (const d of domains) {
+      const depth = pick(key(`domain:${d.key}`), a.domains[d.key], b.domains[d.key], () =>
+        deeperDepth(a.domains[d.key], b.domains[d.key])
+      );
+      if (!depth) continue;
+      tags[d.key] = depth;
+      // Indicators follow the side whose depth was chosen; a combined or unchanged depth unions them.
+      const mineInds = a.indicators?.[d.key] ?? [];
+      const theirsInds = b.indicators?.[d.key] ?? [];
+      const conflict = conflictsById.get(key(`domain:${d.key}`));
+      const choice = conflict ? choiceOf(conflict) : "combine";
+      const inds =
+        choice === "mine" ? mineInds : choice === "theirs" ? theirsInds : [...new Set([...mineInds, ...theirsInds])];
+      if (inds.length) indicators[d.key] = inds;
+    }
+    const outcomeIds = [...new Set([...(a.outcomeIds ?? []), ...mapOutcomeIds(b.outcomeIds)])];
+    const governance: ItemGovernance = {};
+    for (const field of Object.keys(ITEM_GOVERNANCE_LABELS) as (keyof ItemGovernance)[]) {
+      const mineValue = a.governance?.[field] ?? "";
+      const theirsValue = b.governance?.[field] ?? "";
+      const value = mineValue.trim()
+        ? pick(key(`governance:${field}`), mineValue, theirsValue, () => combineText(mineValue, theirsValue))
+        : theirsValue;
+      if (value.trim()) governance[field] = value;
+    }
+
+    const next: MapItem = {
+      ...a,
+      type,
+      name: pick(key("name"), a.name, b.name, () => a.name),
+      notes: pick(key("notes"), a.notes, b.notes, () => combineText(a.notes, b.notes)),
+      exposure: pick(key("exposure"), a.exposure, b.exposure, () =>
+        EXPOSURE_LEVELS.indexOf(a.exposure) >= EXPOSURE_LEVELS.indexOf(b.exposure) ? a.exposure : b.exposure
+      ),
+      domains: tags,
+      ...withGovernance(Object.keys(governance).length ? governance : undefined),
+    };
+    const stageId = a.stageId ?? (b.stageId ? stageMap.get(b.stageId) : undefined);
+    const parentId = a.parentId ?? (b.parentId ? itemMap.get(b.parentId) : undefined);
+    delete next.stageId;
+    delete next.parentId;
+    delete next.credits;
+    delete next.weighting;
+    delete next.contactHours;
+    delete next.indicators;
+    delete next.outcomeIds;
+    return {
+      ...next,
+      ...(size !== undefined ? itemSizePatch(type, String(size)) : {}),
+      ...(stageId ? { stageId } : {}),
+      ...(parentId ? { parentId } : {}),
+      ...(Object.keys(indicators).length ? { indicators } : {}),
+      ...(outcomeIds.length ? { outcomeIds } : {}),
+    };
+  });
+
+  for (const it of plan.added) {
+    const next: MapItem = { ...it };
+    delete next.stageId;
+    delete next.parentId;
+    delete next.outcomeIds;
+    const stageId = it.stageId ? stageMap.get(it.stageId) : undefined;
+    const parentId = it.parentId ? itemMap.get(it.parentId) : undefined;
+    const outcomeIds = mapOutcomeIds(it.outcomeIds);
+    items.push({
+      ...next,
+      ...(stageId ? { stageId } : {}),
+      ...(parentId ? { parentId } : {}),
+      ...(outcomeIds.length ? { outcomeIds } : {}),
+    });
+  }
+
+  const commentIds = new Set(mine.programme.review.comments.map((c) => c.id));
+  const comments = [
+    ...mine.programme.review.comments,
+    ...theirs.programme.review.comments
+      .filter((c) => !commentIds.has(c.id) && itemMap.has(c.itemId))
+      .map((c) => ({ ...c, itemId: itemMap.get(c.itemId)! })),
+  ];
+  const programme: ProgrammeDetails = { ...mine.programme, stages, outcomes, review: { ...mine.programme.review, comments } };
+  for (const field of Object.keys(GOVERNANCE_NOTE_LABELS) as GovernanceNoteField[]) {
+    const a = mine.programme[field] ?? "";
+    const b = theirs.programme[field] ?? "";
+    programme[field] = pick(`programme:${field}`, a, b, () => combineText(a, b)) || undefined;
+  }
+
+  const counts = { mine: 0, theirs: 0, combine: 0 };
+  for (const c of plan.conflicts) counts[choiceOf(c)] += 1;
+  const byName = plan.matches.filter((m) => m.byName).length;
+  const summary =
+    `Merged “${source}” on ${todayISODate()}: ${plan.matches.length} matched item${plan.matches.length === 1 ? "" : "s"}` +
+    `${byName ? ` (${byName} by name)` : ""}, ${plan.added.length} added, ` +
+    `${stages.length - mine.programme.stages.length} stage${stages.length - mine.programme.stages.length === 1 ? "" : "s"} and ` +
+    `${outcomes.length - mine.programme.outcomes.length} outcome${outcomes.length - mine.programme.outcomes.length === 1 ? "" : "s"} added. ` +
+    `${plan.conflicts.length} conflict${plan.conflicts.length === 1 ? "" : "s"}: kept mine ${counts.mine}, took theirs ${counts.theirs}, combined ${counts.combine}.`;
+  programme.reviewNotes = programme.reviewNotes?.trim() ? `${programme.reviewNotes.trimEnd()}\n\n${summary}` : summary;
+
+  return reconcileOutcomes(programme, reconcileParents(items));
+}
+
+/** Validate a stored baseline; scores for unknown domains are dropped. */
+function normalizeBaseline(raw: unknown, domains: Domain[]): CapabilityBaseline | undefined {
+  const obj = asRecord(raw);
+  const scoresRaw = obj ? asRecord(obj.scores) : null;
+  if (!obj || !scoresRaw) return undefined;
+  const scaleMin = typeof obj.scaleMin === "number" ? obj.scaleMin : 0;
+  const scaleMax = typeof obj.scaleMax === "number" && obj.scaleMax > scaleMin ? obj.scaleMax : scaleMin + 100;
+  const scores: Record<DomainKey, number> = {};
+  for (const d of domains) {
+    if (typeof scoresRaw[d.key] === "number") scores[d.key] = scoresRaw[d.key] as number;
+  }
+  return {
+    source: typeof obj.source === "string" ? obj.source : "",
+    cohort: typeof obj.cohort === "string" ? obj.cohort : "",
+    assessedAt: typeof obj.assessedAt === "string" ? obj.assessedAt : "",
+    scaleMin,
+    scaleMax,
+    scores,
+  };
+}
+
+/** Baseline score as a percentage of its scale. */
+function baselinePercent(baseline: CapabilityBaseline, key: DomainKey): number | undefined {
+  const v = baseline.scores[key];
+  if (v === undefined) return undefined;
+  return Math.round(((v - baseline.scaleMin) / (baseline.scaleMax - baseline.scaleMin)) * 100);
+}
+
+/** Domains where the cohort starts low and the programme also has a gap finding. */
+function buildBaselineObservations(baseline: CapabilityBaseline, findings: GapFinding[], domains: Domain[]): string[] {
+  const weak = domains.filter((d) => {
+    const pct = baselinePercent(baseline, d.key);
+    return pct !== undefined && pct < 50 && findings.some((f) => f.domain === d.key);
+  });
+  if (weak.length === 0) return [];
+  return [
+    `**Low Baseline, Low Coverage:** ${weak.map((d) => `${d.name} (${baselinePercent(baseline, d.key)}% baseline)`).join(", ")} ` +
+      `${weak.length === 1 ? "starts" : "start"} below the midpoint of the cohort baseline and also ${weak.length === 1 ? "has" : "have"} a gap finding. ` +
+      "These are where students arrive least prepared and the programme does least.",
+  ];
+}
+
+/** E.g. "Dropped 2 · Coerced 1", skipping kinds with no issues. */
+function countImportIssues(issues: ImportIssue[]): string {
+  return IMPORT_ISSUE_KINDS.map((kind) => [kind, issues.filter((i) => i.kind === kind).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([kind, n]) => `${kind} ${n}`)
+    .join(" · ");
+}
+
+function newGapRule(kind: GapRuleKind, domain: DomainKey): GapRule {
+  const base = { id: safeUUID(), name: GAP_RULE_LABELS[kind], severity: "Medium" as const };
+  switch (kind) {
+    case "no-coverage":
+      return { ...base, kind, severity: "High" };
+    case "relative-threshold":
+      return { ...base, kind, fraction: 0.5 };
+    case "target-minimum":
+      return { ...base, kind, domain, minimum: 1 };
+    case "target-share":
+      return { ...base, kind, domain, share: 10 };
+    case "required-domain":
+      return { ...base, kind, itemType: "Assessment", domain };
+  }
+}
+
+function coerceSeverity(v: unknown): FindingSeverity {
+  return SEVERITY_LEVELS.includes(v as FindingSeverity) ? (v as FindingSeverity) : "Medium";
+}
+
+/** Files without rules get the defaults; rules naming domains outside the framework are dropped. */
+function normalizeGapRules(rulesRaw: unknown, domains: Domain[]): GapRule[] {
+  if (!Array.isArray(rulesRaw)) return defaultGapRules();
+  const keys = new Set(domains.map((d) => d.key));
+  const fallback = domains[0]?.key ?? "";
+  const rules: GapRule[] = [];
+
+  for (const r of rulesRaw as unknown[]) {
+    const obj = r && typeof r === "object" ? (r as Record<string, unknown>) : {};
+    // Own keys only: inherited names such as "toString" are not rule kinds.
+    if (typeof obj.kind !== "string" || !Object.hasOwn(GAP_RULE_LABELS, obj.kind)) continue;
+    const kind = obj.kind as GapRuleKind;
+    if (typeof obj.domain === "string" && !keys.has(obj.domain)) continue;
+
+    const rule = newGapRule(kind, typeof obj.domain === "string" ? obj.domain : fallback);
+    if (rule.kind !== "no-coverage" && rule.kind !== "relative-threshold" && !keys.has(rule.domain)) continue;
+    rules.push({
+      ...rule,
+      ...(typeof obj.id === "string" ? { id: obj.id } : {}),
+      name: typeof obj.name === "string" && obj.name.trim() ? obj.name : rule.name,
+      severity: coerceSeverity(obj.severity),
+      ...(rule.kind === "relative-threshold" && typeof obj.fraction === "number" ? { fraction: obj.fraction } : {}),
+      ...(rule.kind === "target-minimum" && typeof obj.minimum === "number" ? { minimum: obj.minimum } : {}),
+      ...(rule.kind === "target-share" && typeof obj.share === "number" ? { share: obj.share } : {}),
+      ...(rule.kind === "required-domain" ? { itemType: coerceMapItemType(obj.itemType) } : {}),
+    } as GapRule);
+  }
+  return rules;
+}
+
+/** Evaluate the programme's gap rules. Findings are ordered by severity, then rule order. */
+function evaluateGapRules(
+  rules: GapRule[],
+  items: MapItem[],
+  weightedCoverage: Record<DomainKey, number>,
+  domains: Domain[]
+): GapFinding[] {
+  const totalWeighted = Object.values(weightedCoverage).reduce((a, b) => a + b, 0);
+  const avgWeighted = domains.length ? totalWeighted / domains.length : 0;
+  const findings: GapFinding[] = [];
+
+  for (const rule of rules) {
+    const base = { ruleId: rule.id, name: rule.name, severity: rule.severity };
+    if (rule.kind === "no-coverage" || rule.kind === "relative-threshold") {
+      for (const d of domains) {
+        const val = weightedCoverage[d.key] ?? 0;
+        if (rule.kind === "no-coverage" && val === 0) {
+          findings.push({ ...base, domain: d.key, message: `No explicit coverage found for ${d.name}.` });
+        } else if (rule.kind === "relative-threshold" && val > 0 && val < avgWeighted * rule.fraction) {
+          findings.push({
+            ...base,
+            domain: d.key,
+            message: `${d.name} intensity ${val} is below ${roundScore(rule.fraction * 100)}% of the programme average (${roundScore(avgWeighted)}).`,
+          });
+        }
+      }
+      continue;
+    }
+
+    const d = domains.find((dom) => dom.key === rule.domain);
+    if (!d) continue;
+    const val = weightedCoverage[d.key] ?? 0;
+
+    if (rule.kind === "target-minimum" && val < rule.minimum) {
+      findings.push({
+        ...base,
+        domain: d.key,
+        message: `${d.name} intensity ${val} is below the target minimum of ${rule.minimum}.`,
+      });
+    } else if (rule.kind === "target-share" && totalWeighted > 0 && (val / totalWeighted) * 100 < rule.share) {
+      findings.push({
+        ...base,
+        domain: d.key,
+        message: `${d.name} holds ${roundScore((val / totalWeighted) * 100)}% of total intensity, below the target share of ${rule.share}%.`,
+      });
+    } else if (rule.kind === "required-domain") {
+      const missing = items.filter((it) => it.type === rule.itemType && !it.domains[d.key]);
+      if (missing.length > 0) {
+        const names = missing.map((it) => `“${(it.name || "").trim() || "Untitled"}”`).join(", ");
+        findings.push({
+          ...base,
+          domain: d.key,
+          itemIds: missing.map((it) => it.id),
+          message: `Every ${rule.itemType} should address ${d.name}; ${missing.length} do${missing.length === 1 ? "es" : ""} not: ${names}.`,
+        });
+      }
+    }
+  }
+
+  return findings.sort((x, y) => SEVERITY_LEVELS.indexOf(x.severity) - SEVERITY_LEVELS.indexOf(y.severity));
+}
+
+function describeGapRule(rule: GapRule, domains: Domain[]): string {
+  const domainName = (key: DomainKey) => domains.find((d) => d.key === key)?.name ?? key;
+  switch (rule.kind) {
+    case "no-coverage":
+      return "Any domain with no intensity.";
+    case "relative-threshold":
+      return `Any domain below ${roundScore(rule.fraction * 100)}% of the programme average.`;
+    case "target-minimum":
+      return `${domainName(rule.domain)} intensity of at least ${rule.minimum}.`;
+    case "target-share":
+      return `${domainName(rule.domain)} holds at least ${rule.share}% of total intensity.`;
+    case "required-domain":
+      return `Every ${rule.itemType} addresses ${domainName(rule.domain)}.`;
+  }
+}
+
+/**
+ * Quote a value for CSV. Cells that spreadsheet tools would evaluate as a
+ * formula (leading = + - @ or a control character) are prefixed with an apostrophe.
+ */
+function toCsvCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildCsv(rows: (string | number | null | undefined)[][]): string {
+  // BOM so spreadsheet tools detect UTF-8; CRLF per RFC 4180.
+  return "\uFEFF" + rows.map((r) => r.map(toCsvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** One row per item with a column per domain, followed by a domain summary section. */
+function buildMatrixCsv(args: {
+  programme: ProgrammeDetails;
+  items: MapItem[];
+  coverage: Record<DomainKey, number>;
+  weightedCoverage: Record<DomainKey, number>;
+  gapFindings: GapFinding[];
+}): string {
+  const { programme, items, coverage, weightedCoverage, gapFindings } = args;
+  const domains = programme.framework.domains;
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const stageLabels = new Map(programme.stages.map((st) => [st.id, st.label || st.kind]));
+
+  const rows: (string | number | null | undefined)[][] = [];
+  rows.push([
+    "Type",
+    "Name",
+    "Parent module",
+    "Stage",
+    "AI exposure",
+    "Credits / hours / weighting",
+    "Notes",
+    ...domains.map((d) => d.name),
+  ]);
+  for (const it of items) {
+    const stageId = effectiveStageId(it, byId);
+    rows.push([
+      it.type,
+      it.name,
+      it.parentId ? byId.get(it.parentId)?.name : "",
+      stageId ? stageLabels.get(stageId) : "",
+      it.exposure,
+      itemSizeValue(it),
+      it.notes,
+      ...domains.map((d) => it.domains[d.key] ?? ""),
+    ]);
+  }
+
+  rows.push([]);
+  rows.push([
+    "Summary",
+    `Scoring model: ${SCORING_MODEL_LABELS[programme.scoringModel]}`,
+    `Framework: ${programme.framework.name} (${programme.framework.id}, v${programme.framework.version})`,
+  ]);
+  rows.push(["Domain", "Tagged items", "Intensity score", "Gap findings"]);
+  for (const d of domains) {
+    const names = [...new Set(gapFindings.filter((f) => f.domain === d.key).map((f) => `${f.name} (${f.severity})`))];
+    rows.push([d.name, coverage[d.key], weightedCoverage[d.key], names.join("; ") || "Covered"]);
+  }
+
+  return buildCsv(rows);
+}
+
+/** Read a JSON file exported from this tool into a programme and items. */
+async function readMappingFile(file: File): Promise<{ programme: ProgrammeDetails; items: MapItem[] } | null> {
+  try {
+    return normalizeMapping(JSON.parse(await file.text()));
+  } catch {
+    return null;
+  }
+}
+
+/** Distinguishable series colours for per-domain charts, in DOMAINS order. */
+const DOMAIN_SERIES_COLOURS = ["#111111", "#2563EB", "#059669", "#D97706", "#7C3AED", "#DC2626"];
+
+const ITEM_TYPE_COLOURS: Record<MapItemType, string> = {
+  Module: "#111111",
+  Activity: "#2563EB",
+  Assessment: "#059669",
+};
+
+function TimelineChart({ timeline, domains }: { timeline: TimelinePoint[]; domains: Domain[] }) {
+  const width = 640;
+  const height = 220;
+  const pad = { top: 12, right: 16, bottom: 36, left: 36 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+
+  const maxVal = Math.max(1, ...timeline.flatMap((pt) => domains.map((d) => pt.cumulative[d.key])));
+  const x = (idx: number) =>
+    pad.left + (timeline.length === 1 ? plotW / 2 : (idx / (timeline.length - 1)) * plotW);
+  const y = (val: number) => pad.top + plotH - (val / maxVal) * plotH;
+
+  return (
+    <div
+      style={{
+        overflowX: "auto",
+        border: "1px solid #E5E7EB",
+        borderRadius: 6,
+        background: "#F9FAFB",
+        padding: 12,
+      }}
+    >
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ width: "100%", minWidth: 480, height: "auto" }}
+        role="img"
+        aria-label="Cumulative domain intensity across programme stages"
+      >
+        <line x1={pad.left} y1={pad.top + plotH} x2={pad.left + plotW} y2={pad.top + plotH} stroke="#E5E7EB" />
+        <line x1={pad.left} y1={pad.top} x2={pad.left} y2={pad.top + plotH} stroke="#E5E7EB" />
+        <text x={pad.left - 6} y={pad.top + 4} fontSize={10} textAnchor="end" fill="#777777">
+          {maxVal}
+        </text>
+        <text x={pad.left - 6} y={pad.top + plotH} fontSize={10} textAnchor="end" fill="#777777">
+          0
+        </text>
+
+        {timeline.map((pt, idx) => (
+          <text key={pt.stageId} x={x(idx)} y={height - 14} fontSize={10} textAnchor="middle" fill="#777777">
+            {pt.label}
+          </text>
+        ))}
+
+        {domains.map((d, di) => (
+          <polyline
+            key={d.key}
+            fill="none"
+            stroke={DOMAIN_SERIES_COLOURS[di % DOMAIN_SERIES_COLOURS.length]}
+            strokeWidth={2}
+            points={timeline.map((pt, idx) => `${x(idx)},${y(pt.cumulative[d.key])}`).join(" ")}
+          >
+            <title>{d.name}</title>
+          </polyline>
+        ))}
+      </svg>
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", marginTop: 8 }}>
+        {domains.map((d, di) => (
+          <span key={d.key} className="small" style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+            <span
+              style={{
+                width: 12,
+                height: 3,
+                background: DOMAIN_SERIES_COLOURS[di % DOMAIN_SERIES_COLOURS.length],
+                display: "inline-block",
+              }}
+            />
+            {d.short}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Card frame for a chart, with SVG and PNG download of the chart it contains. */
+function ChartPanel({
+  title,
+  description,
+  filename,
+  unavailable,
+  children,
+}: {
+  title: string;
+  description: string;
+  /** File name without extension. */
+  filename: string;
+  /** Why the chart cannot be drawn; shown in its place, with downloads disabled. */
+  unavailable?: string;
+  children: React.ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  function chartSvg(): SVGSVGElement | null {
+    return ref.current?.querySelector("svg") ?? null;
+  }
+
+  function saveSvg() {
+    const svg = chartSvg();
+    if (svg) downloadSvg(`${filename}.svg`, svg);
+  }
+
+  function savePng() {
+    const svg = chartSvg();
+    if (!svg) return;
+    downloadSvgAsPng(`${filename}.png`, svg).catch((err: unknown) =>
+      window.alert(err instanceof Error ? err.message : "The chart could not be converted to PNG.")
+    );
+  }
+
+  return (
+    <div className="stack-tight">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <div className="badge">{title}</div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button
+            className="secondary"
+            onClick={saveSvg}
+            disabled={!!unavailable}
+            title={unavailable ?? `Download ${title} as SVG`}
+          >
+            SVG
+          </button>
+          <button
+            className="secondary"
+            onClick={savePng}
+            disabled={!!unavailable}
+            title={unavailable ?? `Download ${title} as PNG`}
+          >
+            PNG
+          </button>
+        </div>
+      </div>
+      <p className="small muted" style={{ margin: 0 }}>{description}</p>
+      <div
+        ref={ref}
+        style={{ border: "1px solid #E5E7EB", borderRadius: 6, background: "#F9FAFB", padding: 12, overflowX: "auto" }}
+      >
+        {unavailable ? <p className="small muted" style={{ margin: 0 }}>{unavailable}</p> : children}
+      </div>
+    </div>
+  );
+}
+
+/** Spider chart of weighted coverage, with the target profile overlaid when one is set. */
+function RadarChart({
+  domains,
+  weightedCoverage,
+  targetComparison,
+}: {
+  domains: Domain[];
+  weightedCoverage: Record<DomainKey, number>;
+  targetComparison: TargetComparison | null;
+}) {
+  const size = 360;
+  const centre = size / 2;
+  const radius = 120;
+  const rings = 4;
+  const targets = targetIntensities(targetComparison, weightedCoverage);
+  const maxVal = Math.max(1, ...domains.map((d) => Math.max(weightedCoverage[d.key], targets.get(d.key) ?? 0)));
+
+  const angle = (i: number) => -Math.PI / 2 + (i / domains.length) * 2 * Math.PI;
+  const point = (i: number, r: number) => [centre + r * Math.cos(angle(i)), centre + r * Math.sin(angle(i))];
+  const polygon = (values: number[]) =>
+    values.map((v, i) => point(i, (v / maxVal) * radius).map((n) => n.toFixed(1)).join(",")).join(" ");
+
+  if (domains.length < 3) return null;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${size} ${size}`}
+      style={{ width: "100%", maxWidth: size, height: "auto", display: "block", margin: "0 auto" }}
+      role="img"
+      aria-label="Coverage profile across domains"
+      fontFamily="system-ui, sans-serif"
+    >
+      <rect x={0} y={0} width={size} height={size} fill="#FFFFFF" />
+      {Array.from({ length: rings }, (_, ri) => (
+        <polygon
+          key={ri}
+          points={polygon(domains.map(() => (maxVal * (ri + 1)) / rings))}
+          fill="none"
+          stroke="#E5E7EB"
+        />
+      ))}
+      {domains.map((d, i) => {
+        const [x, y] = point(i, radius);
+        const [lx, ly] = point(i, radius + 22);
+        const cos = Math.cos(angle(i));
+        return (
+          <g key={d.key}>
+            <line x1={centre} y1={centre} x2={x} y2={y} stroke="#E5E7EB" />
+            <text
+              x={lx}
+              y={ly + 4}
+              fontSize={11}
+              fill="#444444"
+              textAnchor={Math.abs(cos) < 0.2 ? "middle" : cos > 0 ? "start" : "end"}
+            >
+              <title>{`${d.name}: ${weightedCoverage[d.key]}`}</title>
+              {d.short} {weightedCoverage[d.key]}
+            </text>
+          </g>
+        );
+      })}
+      <text x={centre + 4} y={centre - radius - 2} fontSize={9} fill="#777777">
+        {maxVal}
+      </text>
+      {targetComparison && (
+        <polygon
+          points={polygon(domains.map((d) => targets.get(d.key) ?? 0))}
+          fill="none"
+          stroke="#D97706"
+          strokeWidth={2}
+          strokeDasharray="5 3"
+        >
+          <title>Target profile</title>
+        </polygon>
+      )}
+      <polygon
+        points={polygon(domains.map((d) => weightedCoverage[d.key]))}
+        fill="rgba(37, 99, 235, 0.2)"
+        stroke="#2563EB"
+        strokeWidth={2}
+      />
+      {domains.map((d, i) => {
+        const [x, y] = point(i, (weightedCoverage[d.key] / maxVal) * radius);
+        return <circle key={d.key} cx={x} cy={y} r={3} fill="#2563EB" />;
+      })}
+    </svg>
+  );
+}
+
+/** Horizontal bars per domain, split by the item type that contributes the intensity. */
+function TypeContributionChart({
+  domains,
+  byType,
+}: {
+  domains: Domain[];
+  byType: Record<MapItemType, Record<DomainKey, number>>;
+}) {
+  const types = Object.keys(ITEM_TYPE_COLOURS) as MapItemType[];
+  const labelW = 70;
+  const barW = 360;
+  const rowH = 26;
+  const legendH = 24;
+  const width = labelW + barW + 50;
+  const height = legendH + domains.length * rowH + 4;
+  const totals = domains.map((d) => types.reduce((sum, t) => sum + byType[t][d.key], 0));
+  const maxVal = Math.max(1, ...totals);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ width: "100%", minWidth: 360, height: "auto" }}
+      role="img"
+      aria-label="Intensity per domain by item type"
+      fontFamily="system-ui, sans-serif"
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#FFFFFF" />
+      {types.map((t, ti) => (
+        <g key={t}>
+          <rect x={labelW + ti * 110} y={6} width={10} height={10} fill={ITEM_TYPE_COLOURS[t]} />
+          <text x={labelW + ti * 110 + 14} y={15} fontSize={11} fill="#444444">
+            {t}
+          </text>
+        </g>
+      ))}
+      {domains.map((d, di) => {
+        const y = legendH + di * rowH;
+        let x = labelW;
+        return (
+          <g key={d.key}>
+            <text x={0} y={y + 15} fontSize={11} fill="#111111">
+              <title>{d.name}</title>
+              {d.short}
+            </text>
+            <rect x={labelW} y={y + 5} width={barW} height={14} fill="#F3F4F6" />
+            {types.map((t) => {
+              const w = (byType[t][d.key] / maxVal) * barW;
+              const seg = (
+                <rect key={t} x={x} y={y + 5} width={w} height={14} fill={ITEM_TYPE_COLOURS[t]}>
+                  <title>{`${d.name} · ${PLURAL_LABELS[t]}: ${byType[t][d.key]}`}</title>
+                </rect>
+              );
+              x += w;
+              return seg;
+            })}
+            <text x={labelW + barW + 6} y={y + 16} fontSize={11} fill="#666666">
+              {roundScore(totals[di])}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Domain × domain matrix of how many items are tagged with both. */
+function CooccurrenceMatrix({
+  domains,
+  counts,
+}: {
+  domains: Domain[];
+  counts: Record<DomainKey, Record<DomainKey, number>>;
+}) {
+  const labelW = 56;
+  const cell = 44;
+  const headerH = 24;
+  const width = labelW + domains.length * cell + 4;
+  const height = headerH + domains.length * cell + 4;
+  const maxPair = Math.max(
+    1,
+    ...domains.flatMap((a) => domains.filter((b) => b.key !== a.key).map((b) => counts[a.key][b.key]))
+  );
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ width: "100%", maxWidth: Math.round(width * 1.4), height: "auto", display: "block", margin: "0 auto" }}
+      role="img"
+      aria-label="Domain co-occurrence matrix"
+      fontFamily="system-ui, sans-serif"
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#FFFFFF" />
+      {domains.map((d, i) => (
+        <g key={d.key}>
+          <text x={labelW + i * cell + cell / 2} y={16} fontSize={11} fill="#666666" textAnchor="middle">
+            <title>{d.name}</title>
+            {d.short}
+          </text>
+          <text x={labelW - 6} y={headerH + i * cell + cell / 2 + 4} fontSize={11} fill="#666666" textAnchor="end">
+            <title>{d.name}</title>
+            {d.short}
+          </text>
+        </g>
+      ))}
+      {domains.map((a, ri) =>
+        domains.map((b, ci) => {
+          const n = counts[a.key][b.key];
+          const diagonal = a.key === b.key;
+          const opacity = diagonal || n === 0 ? 0 : 0.15 + 0.85 * (n / maxPair);
+          return (
+            <g key={`${a.key}-${b.key}`}>
+              <rect
+                x={labelW + ci * cell + 2}
+                y={headerH + ri * cell + 2}
+                width={cell - 4}
+                height={cell - 4}
+                rx={3}
+                fill={diagonal ? "#F3F4F6" : `rgba(17, 17, 17, ${opacity})`}
+                stroke="#E5E7EB"
+              >
+                <title>
+                  {diagonal
+                    ? `${a.name}: ${n} item${n === 1 ? "" : "s"} tagged`
+                    : `${a.name} + ${b.name}: ${n} item${n === 1 ? "" : "s"}`}
+                </title>
+              </rect>
+              <text
+                x={labelW + ci * cell + cell / 2}
+                y={headerH + ri * cell + cell / 2 + 4}
+                fontSize={11}
+                fontWeight={diagonal ? 400 : 600}
+                textAnchor="middle"
+                fill={opacity > 0.5 ? "#FFFFFF" : diagonal ? "#777777" : "#111111"}
+              >
+                {n}
+              </text>
+            </g>
+          );
+        })
+      )}
+    </svg>
+  );
+}
+
+type HeatmapSort = { key: DomainKey | "total"; dir: "desc" | "asc" };
+type HeatmapGrouping = "none" | "type" | "module";
+
+const HEATMAP_GROUPING_LABELS: Record<HeatmapGrouping, string> = {
+  none: "No grouping",
+  type: "By item type",
+  module: "By module",
+};
+
+/**
+ * Item × domain matrix with sorting, filters, grouping and totals. Clicking a
+ * cell steps that domain through the depth scale for the item.
+ */
+function InteractiveHeatmap({
+  items,
+  domains,
+  scoreItem,
+  cellOpacity,
+  readOnly,
+  onCycle,
+}: {
+  items: MapItem[];
+  domains: Domain[];
+  scoreItem: ItemScorer;
+  cellOpacity: (item: MapItem, key: DomainKey) => number;
+  readOnly: boolean;
+  onCycle: (id: string, key: DomainKey) => void;
+}) {
+  const [sort, setSort] = useState<HeatmapSort | null>(null);
+  const [types, setTypes] = useState<MapItemType[]>(["Module", "Activity", "Assessment"]);
+  const [minWeight, setMinWeight] = useState("");
+  const [search, setSearch] = useState("");
+  const [grouping, setGrouping] = useState<HeatmapGrouping>("none");
+
+  const itemNumber = new Map(items.map((it, i) => [it.id, i + 1]));
+  const byId = new Map(items.map((it) => [it.id, it]));
+  // Totals and sorting use the same indicator roll-up as the coverage analysis.
+  const domainByKey = new Map(domains.map((d) => [d.key, d]));
+  const cellScore = (it: MapItem, key: DomainKey) => {
+    const domain = domainByKey.get(key);
+    return domain ? domainScore(it, domain, scoreItem) : 0;
+  };
+  const rowTotal = (it: MapItem) => roundScore(domains.reduce((sum, d) => sum + cellScore(it, d.key), 0));
+  const sortValue = (it: MapItem) => (sort?.key === "total" ? rowTotal(it) : sort ? cellScore(it, sort.key) : 0);
+
+  const query = search.trim().toLowerCase();
+  const weightFloor = Number(minWeight);
+  const visible = items.filter(
+    (it) =>
+      types.includes(it.type) &&
+      (!minWeight.trim() || !Number.isFinite(weightFloor) || creditEquivalent(it, byId) >= weightFloor) &&
+      (!query || it.name.toLowerCase().includes(query) || it.notes.toLowerCase().includes(query))
+  );
+  const sorted = sort
+    ? [...visible].sort((a, b) => (sort.dir === "desc" ? sortValue(b) - sortValue(a) : sortValue(a) - sortValue(b)))
+    : visible;
+
+  let groups: { key: string; label: string; rows: MapItem[] }[];
+  if (grouping === "type") {
+    groups = (["Module", "Activity", "Assessment"] as MapItemType[]).map((t) => ({
+      key: t,
+      label: PLURAL_LABELS[t],
+      rows: sorted.filter((it) => it.type === t),
+    }));
+  } else if (grouping === "module") {
+    // A module's own row sits in its group; nested items follow their parent.
+    const groupOf = (it: MapItem) => (it.type === "Module" ? it.id : it.parentId && byId.has(it.parentId) ? it.parentId : "");
+    groups = [
+      ...items
+        .filter((it) => it.type === "Module")
+        .map((m) => ({ key: m.id, label: m.name.trim() || "Untitled module", rows: sorted.filter((it) => groupOf(it) === m.id) })),
+      { key: "", label: "Unassigned activities and assessments", rows: sorted.filter((it) => groupOf(it) === "") },
+    ];
+  } else {
+    groups = [{ key: "all", label: "", rows: sorted }];
+  }
+  groups = groups.filter((g) => g.rows.length > 0);
+
+  const columnTotals = (rows: MapItem[]) =>
+    domains.map((d) => roundScore(rows.reduce((sum, it) => sum + cellScore(it, d.key), 0)));
+
+  function toggleSort(key: DomainKey | "total") {
+    setSort((prev) =>
+      prev?.key !== key ? { key, dir: "desc" } : prev.dir === "desc" ? { key, dir: "asc" } : null
+    );
+  }
+
+  function toggleType(type: MapItemType) {
+    setTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+  }
+
+  const sortMark = (key: DomainKey | "total") => (sort?.key === key ? (sort.dir === "desc" ? " ▼" : " ▲") : "");
+  const headerStyle = { textAlign: "center" as const, fontSize: 11, padding: 8, color: "#777", width: 60 };
+  const totalCellStyle = { fontSize: 11, padding: 8, textAlign: "center" as const, color: "#555" };
+
+  return (
+    <div className="stack-tight">
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <input
+          type="text"
+          value={search}
+          placeholder="Search items…"
+          style={{ maxWidth: 220 }}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {(["Module", "Activity", "Assessment"] as MapItemType[]).map((t) => (
+          <button
+            key={t}
+            className={`tag ${types.includes(t) ? "active" : ""}`}
+            aria-pressed={types.includes(t)}
+            onClick={() => toggleType(t)}
+          >
+            {PLURAL_LABELS[t]}
+          </button>
+        ))}
+        <label className="small" style={{ display: "flex", gap: 6, alignItems: "center", margin: 0 }}>
+          Min. weight (credits)
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={minWeight}
+            style={{ width: 80 }}
+            onChange={(e) => setMinWeight(e.target.value)}
+          />
+        </label>
+        <select value={grouping} style={{ width: 160 }} onChange={(e) => setGrouping(e.target.value as HeatmapGrouping)}>
+          {(Object.keys(HEATMAP_GROUPING_LABELS) as HeatmapGrouping[]).map((g) => (
+            <option key={g} value={g}>
+              {HEATMAP_GROUPING_LABELS[g]}
+            </option>
+          ))}
+        </select>
+        <span className="small muted">
+          {sorted.length} of {items.length} item{items.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <div
+        style={{
+          overflowX: "auto",
+          border: "1px solid #E5E7EB",
+          borderRadius: 6,
+          background: "#F9FAFB",
+          padding: 12,
+        }}
+      >
+        <table style={{ borderCollapse: "collapse", minWidth: 600, width: "100%" }}>
+          <thead>
+            <tr>
+              <th
+                style={{ width: 180, textAlign: "left", fontSize: 11, padding: 8, color: "#777", cursor: "pointer" }}
+                title="Back to mapping order"
+                onClick={() => setSort(null)}
+              >
+                Item
+              </th>
+              {domains.map((d) => (
+                <th
+                  key={d.key}
+                  title={`${d.name} — click to sort by intensity`}
+                  aria-sort={sort?.key === d.key ? (sort.dir === "desc" ? "descending" : "ascending") : undefined}
+                  style={{ ...headerStyle, cursor: "pointer" }}
+                  onClick={() => toggleSort(d.key)}
+                >
+                  {d.short}
+                  {sortMark(d.key)}
+                </th>
+              ))}
+              <th
+                title="Item total across domains — click to sort"
+                aria-sort={sort?.key === "total" ? (sort.dir === "desc" ? "descending" : "ascending") : undefined}
+                style={{ ...headerStyle, cursor: "pointer" }}
+                onClick={() => toggleSort("total")}
+              >
+                Total{sortMark("total")}
+              </th>
+            </tr>
+          </thead>
+          {groups.map((g) => (
+            <tbody key={g.key}>
+              {grouping !== "none" && (
+                <tr style={{ borderTop: "1px solid #E5E7EB", background: "#F3F4F6" }}>
+                  <td style={{ fontSize: 12, padding: 8, fontWeight: 600 }}>
+                    {g.label} <span className="muted">({g.rows.length})</span>
+                  </td>
+                  {columnTotals(g.rows).map((total, i) => (
+                    <td key={domains[i].key} style={totalCellStyle}>{total || ""}</td>
+                  ))}
+                  <td style={totalCellStyle}>{roundScore(g.rows.reduce((sum, it) => sum + rowTotal(it), 0))}</td>
+                </tr>
+              )}
+              {g.rows.map((item) => (
+                <tr key={item.id} style={{ borderTop: "1px solid #E5E7EB" }}>
+                  <td
+                    title={item.name || "Untitled"}
+                    style={{ fontSize: 12, padding: 8, fontWeight: 500, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis", maxWidth: 180 }}
+                  >
+                    {itemNumber.get(item.id)}. {item.name || "Untitled"}
+                  </td>
+                  {domains.map((d) => {
+                    const depth = item.domains[d.key];
+                    const opacity = cellOpacity(item, d.key);
+                    const next = nextDepth(depth);
+                    return (
+                      <td key={d.key} style={{ padding: 4 }}>
+                        <button
+                          type="button"
+                          disabled={readOnly}
+                          title={`${d.name}: ${depth ?? "not tagged"}${readOnly ? "" : ` — click for ${next ?? "not tagged"}`}`}
+                          onClick={() => onCycle(item.id, d.key)}
+                          style={{
+                            display: "block",
+                            width: "100%",
+                            height: 20,
+                            padding: 0,
+                            background: depth ? `rgba(17, 17, 17, ${opacity})` : "transparent",
+                            borderRadius: 3,
+                            border: depth ? "1px solid #111111" : "1px dashed #E5E7EB",
+                            color: opacity > 0.5 ? "#FFFFFF" : "#111111",
+                            fontSize: 10,
+                            fontWeight: 600,
+                            lineHeight: "18px",
+                            textAlign: "center",
+                            cursor: readOnly ? "default" : "pointer",
+                          }}
+                        >
+                          {depth ? DEPTH_SHORT[depth] : ""}
+                        </button>
+                      </td>
+                    );
+                  })}
+                  <td style={totalCellStyle}>{rowTotal(item)}</td>
+                </tr>
+              ))}
+            </tbody>
+          ))}
+          <tfoot>
+            <tr style={{ borderTop: "2px solid #E5E7EB" }}>
+              <td style={{ fontSize: 12, padding: 8, fontWeight: 600 }}>
+                Total{sorted.length < items.length ? ` (${sorted.length} shown)` : ""}
+              </td>
+              {columnTotals(sorted).map((total, i) => (
+                <td key={domains[i].key} style={{ ...totalCellStyle, fontWeight: 600 }}>{total}</td>
+              ))}
+              <td style={{ ...totalCellStyle, fontWeight: 600 }}>
+                {roundScore(sorted.reduce((sum, it) => sum + rowTotal(it), 0))}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+        {sorted.length === 0 && (
+          <p className="small muted" style={{ margin: "8px 0 0" }}>
+            {items.length === 0 ? "No items yet." : "No items match these filters."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CsvImportPanel({
+  domains,
+  onImport,
+  onClose,
+}: {
+  domains: Domain[];
+  onImport: (items: MapItem[], mode: "append" | "replace") => void;
+  onClose: () => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [targets, setTargets] = useState<CsvTarget[]>([]);
+  const [mode, setMode] = useState<"append" | "replace">("append");
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const headers = rows[0] ?? [];
+  const results = useMemo(() => mapCsvRows(rows.slice(1), targets, domains), [rows, targets, domains]);
+  const validRows = results.filter((r) => r.raw);
+  const hasName = targets.includes("name");
+
+  async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = "";
+
+    const parsed = parseDelimited(await file.text());
+    if (parsed.length < 2) {
+      window.alert("That file needs a header row and at least one data row.");
+      return;
+    }
+    setFileName(file.name);
+    setRows(parsed);
+    setTargets(parsed[0].map((h) => guessCsvTarget(h, domains)));
+  }
+
+  function setTarget(col: number, target: CsvTarget) {
+    setTargets((prev) => prev.map((t, i) => (i === col ? target : t)));
+  }
+
+  function confirmImport() {
+    const raws = validRows.map((r) => r.raw);
+    if (raws.length === 0) return;
+    onImport(normalizeItems(raws, domains), mode);
+  }
+
+  return (
+    <div className="card nested stack">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+        <div className="badge">Import CSV{fileName ? ` — ${fileName}` : ""}</div>
+        <button className="secondary" onClick={onClose}>Close</button>
+      </div>
+
+      <p className="small muted" style={{ margin: 0 }}>
+        Save your module list from a spreadsheet as CSV (comma or tab separated) with a header row. Domain columns
+        accept a depth (Introduced, Developed, Applied, Assessed or I / D / Ap / As) or yes / x for a plain tag.
+      </p>
+
+      <div>
+        <button className="secondary" onClick={() => fileInputRef.current?.click()}>
+          {rows.length ? "Choose a different file" : "Choose CSV file"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          style={{ display: "none" }}
+          onChange={(e) => void onFileChange(e)}
+        />
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="stack-tight">
+            <label>Map columns</label>
+            {headers.map((h, col) => (
+              <div key={col} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <span className="small" style={{ width: 200, fontWeight: 600, overflow: "hidden", textOverflow: "ellipsis" }}>
+                  {h || `Column ${col + 1}`}
+                </span>
+                <select
+                  value={targets[col] ?? ""}
+                  style={{ maxWidth: 260 }}
+                  onChange={(e) => setTarget(col, e.target.value as CsvTarget)}
+                >
+                  <option value="">Ignore</option>
+                  {(Object.keys(CSV_FIELD_LABELS) as (keyof typeof CSV_FIELD_LABELS)[]).map((f) => (
+                    <option key={f} value={f}>
+                      {CSV_FIELD_LABELS[f]}
+                    </option>
+                  ))}
+                  {domains.map((d) => (
+                    <option key={d.key} value={d.key}>
+                      Domain: {d.name}
+                    </option>
+                  ))}
+                </select>
+                <span className="small muted" style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  e.g. {rows[1]?.[col] || "—"}
+                </span>
+              </div>
+            ))}
+            {!hasName && <p className="small" style={{ margin: 0 }}>Map one column to Name to continue.</p>}
+          </div>
+
+          <div className="stack-tight">
+            <label>
+              Preview ({validRows.length} of {results.length} row{results.length === 1 ? "" : "s"} ready)
+            </label>
+            <div style={{ overflowX: "auto", maxHeight: 320, border: "1px solid #E5E7EB", borderRadius: 6 }}>
+              <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <thead>
+                  <tr>
+                    {["Row", "Name", "Type", "Domains", "Issues"].map((h) => (
+                      <th key={h} style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((r) => {
+                    const tags = (r.raw?.domains ?? {}) as Record<string, unknown>;
+                    return (
+                      <tr key={r.rowNumber} style={{ borderTop: "1px solid #E5E7EB" }}>
+                        <td className="small" style={{ padding: 8 }}>{r.rowNumber}</td>
+                        <td className="small" style={{ padding: 8 }}>{String(r.raw?.name ?? "—")}</td>
+                        <td className="small" style={{ padding: 8 }}>{String(r.raw?.type ?? "Module")}</td>
+                        <td className="small" style={{ padding: 8 }}>
+                          {domains.filter((d) => tags[d.key]).map((d) => d.short).join(", ") || "—"}
+                        </td>
+                        <td className="small" style={{ padding: 8 }}>
+                          {r.errors.map((m) => (
+                            <div key={m} style={{ color: "#B91C1C" }}>{m} Row skipped.</div>
+                          ))}
+                          {r.warnings.map((m) => (
+                            <div key={m} style={{ color: "#92400E" }}>{m}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <button className={`tag ${mode === "append" ? "active" : ""}`} onClick={() => setMode("append")}>
+              Append to current items
+            </button>
+            <button className={`tag ${mode === "replace" ? "active" : ""}`} onClick={() => setMode("replace")}>
+              Replace current items
+            </button>
+            <button className="primary" onClick={confirmImport} disabled={!hasName || validRows.length === 0}>
+              Import {validRows.length} item{validRows.length === 1 ? "" : "s"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Every field an import dropped or coerced, grouped by kind. */
+function ImportIssueList({ issues }: { issues: ImportIssue[] }) {
+  if (issues.length === 0) return <p className="small" style={{ margin: 0 }}>Every field was read as-is.</p>;
+  return (
+    <div className="stack-tight">
+      <label>{countImportIssues(issues)}</label>
+      {IMPORT_ISSUE_KINDS.map((kind) => {
+        const group = issues.filter((i) => i.kind === kind);
+        if (group.length === 0) return null;
+        return (
+          <details key={kind} open={group.length <= 10}>
+            <summary className="small" style={{ cursor: "pointer", fontWeight: 600 }}>
+              {kind} ({group.length})
+            </summary>
+            <div style={{ maxHeight: 200, overflowY: "auto", paddingLeft: 12 }}>
+              {group.map((i, idx) => (
+                <div key={idx} className="small">
+                  <code>{i.path}</code> <span className="muted">— {i.detail}</span>
+                </div>
+              ))}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Lists everything a shared-format import dropped or coerced before it is
+ * applied: a curriculum or simulation structure, or a cohort baseline.
+ */
+function InterchangeImportPanel({
+  pending,
+  hasBaseline,
+  onImport,
+  onClose,
+}: {
+  pending: PendingInterchange;
+  hasBaseline: boolean;
+  onImport: () => void;
+  onClose: () => void;
+}) {
+  const { issues } = pending;
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+  let title: string;
+  let summary: string;
+  let effect: string;
+  if (pending.kind === "capability-baseline") {
+    const { baseline } = pending;
+    title = "Cohort baseline";
+    summary = `${plural(Object.keys(baseline.scores).length, "domain score")}${baseline.cohort ? ` for ${baseline.cohort}` : ""}`;
+    effect = hasBaseline ? "This replaces the baseline already attached." : "The baseline is attached to this programme.";
+  } else if (pending.kind === "curriculum-structure") {
+    const { programme, items } = pending;
+    title = "Curriculum structure";
+    summary = `${plural(items.length, "item")} · ${plural(programme.outcomes.length, "learning outcome")} · ${plural(programme.stages.length, "stage")}`;
+    effect =
+      "This replaces the items, stages and outcomes of the current mapping. The current mapping is saved as an automatic snapshot first.";
+  } else {
+    const { programme, items } = pending;
+    title = "Simulation structure";
+    summary = `${plural(items.length, "item")} · ${plural(programme.stages.length, "stage")}`;
+    effect =
+      "This replaces the items, stages and scoring model of the current mapping. The current mapping is saved as an automatic snapshot first.";
+  }
+
+  return (
+    <div className="card nested stack">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+        <div className="badge">{title} — {pending.fileName}</div>
+        <button className="secondary" onClick={onClose}>Close</button>
+      </div>
+
+      <p className="small muted" style={{ margin: 0 }}>
+        From {pending.source} · schema {pending.version} · {summary}. {effect}
+      </p>
+
+      <ImportIssueList issues={issues} />
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <button className="primary" onClick={onImport}>
+          {pending.kind === "capability-baseline" ? "Attach baseline" : "Import"}
+          {issues.length ? ` with ${issues.length} repair${issues.length === 1 ? "" : "s"}` : ""}
+        </button>
+        <button className="secondary" onClick={onClose}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lists what a mapping file import would repair, and lets the user reject it
+ * (strict) or repair it (lenient), then replace the current mapping or merge into it.
+ */
+function ImportReviewPanel({
+  review,
+  current,
+  onImport,
+  onClose,
+}: {
+  review: ExportValidation & { fileName: string };
+  current: { programme: ProgrammeDetails; items: MapItem[] };
+  onImport: (next: { programme: ProgrammeDetails; items: MapItem[] }, merged: boolean) => void;
+  onClose: () => void;
+}) {
+  const [mode, setMode] = useState<"strict" | "lenient">("lenient");
+  const [target, setTarget] = useState<"replace" | "merge">("replace");
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+  const { issues, programme, items } = review;
+  const rejected = mode === "strict" && issues.length > 0;
+  const canMerge = sameFramework(current.programme.framework, programme.framework);
+  const plan = useMemo(() => (canMerge ? planMerge(current, review) : null), [canMerge, current, review]);
+  const currentNames = new Map(current.items.map((it) => [it.id, it.name || "Untitled item"]));
+
+  function chooseAll(choice: MergeChoice) {
+    setChoices(Object.fromEntries((plan?.conflicts ?? []).map((c) => [c.id, choice])));
+  }
+
+  function confirmImport() {
+    if (target === "merge" && plan) onImport(applyMerge(current, review, plan, choices, review.fileName), true);
+    else onImport({ programme, items }, false);
+  }
+
+  return (
+    <div className="card nested stack">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+        <div className="badge">Import JSON — {review.fileName}</div>
+        <button className="secondary" onClick={onClose}>Close</button>
+      </div>
+
+      <p className="small muted" style={{ margin: 0 }}>
+        Schema {review.version} · {items.length} item{items.length === 1 ? "" : "s"} · {programme.outcomes.length} learning
+        outcome{programme.outcomes.length === 1 ? "" : "s"} · {programme.stages.length} stage
+        {programme.stages.length === 1 ? "" : "s"} · {programme.framework.name}. The current mapping is saved as an
+        automatic snapshot first.
+      </p>
+
+      <ImportIssueList issues={issues} />
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <button className={`tag ${mode === "strict" ? "active" : ""}`} onClick={() => setMode("strict")}>
+          Strict: reject if anything needs repair
+        </button>
+        <button className={`tag ${mode === "lenient" ? "active" : ""}`} onClick={() => setMode("lenient")}>
+          Lenient: repair and import
+        </button>
+      </div>
+
+      <div className="stack-tight">
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+          <button className={`tag ${target === "replace" ? "active" : ""}`} onClick={() => setTarget("replace")}>
+            Replace current mapping
+          </button>
+          <button
+            className={`tag ${target === "merge" ? "active" : ""}`}
+            onClick={() => setTarget("merge")}
+            disabled={!canMerge}
+            title={!canMerge ? "Both mappings must use the same capability framework to merge." : undefined}
+          >
+            Merge into current mapping
+          </button>
+        </div>
+
+        {target === "merge" && plan && (
+          <>
+            <p className="small muted" style={{ margin: 0 }}>
+              Items are matched by id, then by name within the same type. {plan.matches.length} matched
+              {plan.matches.some((m) => m.byName) ? ` (${plan.matches.filter((m) => m.byName).length} by name)` : ""} ·{" "}
+              {plan.added.length} new · {plan.conflicts.length} conflict{plan.conflicts.length === 1 ? "" : "s"}. A
+              summary is added to Human Review Notes.
+            </p>
+            {plan.conflicts.length > 0 && (
+              <>
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  <button className="secondary" onClick={() => chooseAll("mine")}>Keep all mine</button>
+                  <button className="secondary" onClick={() => chooseAll("theirs")}>Take all theirs</button>
+                  <button className="secondary" onClick={() => setChoices({})}>Reset choices</button>
+                </div>
+                <div style={{ overflowX: "auto", maxHeight: 360, border: "1px solid #E5E7EB", borderRadius: 6 }}>
+                  <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                    <thead>
+                      <tr>
+                        {["Item", "Field", "Mine", "Theirs", "Use"].map((h) => (
+                          <th key={h} style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.conflicts.map((c) => {
+                        const choice = choices[c.id] ?? defaultMergeChoice(c);
+                        const options: MergeChoice[] = c.canCombine ? ["mine", "theirs", "combine"] : ["mine", "theirs"];
+                        return (
+                          <tr key={c.id} style={{ borderTop: "1px solid #E5E7EB" }}>
+                            <td className="small" style={{ padding: 8 }}>
+                              {c.itemId ? currentNames.get(c.itemId) : "Programme notes"}
+                            </td>
+                            <td className="small" style={{ padding: 8 }}>{c.label}</td>
+                            <td className="small" style={{ padding: 8, whiteSpace: "pre-wrap" }}>{c.mine || "—"}</td>
+                            <td className="small" style={{ padding: 8, whiteSpace: "pre-wrap" }}>{c.theirs || "—"}</td>
+                            <td style={{ padding: 8, whiteSpace: "nowrap" }}>
+                              {options.map((o) => (
+                                <button
+                                  key={o}
+                                  className={`tag ${choice === o ? "active" : ""}`}
+                                  onClick={() => setChoices((prev) => ({ ...prev, [c.id]: o }))}
+                                >
+                                  {o === "mine" ? "Keep mine" : o === "theirs" ? "Take theirs" : "Combine"}
+                                </button>
+                              ))}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        {rejected ? (
+          <>
+            <span className="small" style={{ color: "#B91C1C" }}>
+              Strict mode rejects this file. Fix it at source, or switch to lenient repair.
+            </span>
+            <button className="secondary" onClick={onClose}>Reject file</button>
+          </>
+        ) : (
+          <button className="primary" onClick={confirmImport}>
+            {target === "merge" ? "Merge" : "Import"}
+            {issues.length ? ` with ${issues.length} repair${issues.length === 1 ? "" : "s"}` : " mapping"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Read-only view of a mapping opened from a share link. */
+function SharedMappingPreview({
+  shared,
+  onImport,
+  onClose,
+}: {
+  shared: ExportValidation;
+  onImport: () => void;
+  onClose: () => void;
+}) {
+  const { programme, items } = shared;
+  const domains = programme.framework.domains;
+  const { weightedCoverage } = useMemo(() => tallyCoverage(items, domains), [items, domains]);
+  const { modules, unassigned } = useMemo(() => buildHierarchy(items), [items]);
+  const ordered = [...modules.flatMap((g) => [g.module, ...g.children]), ...unassigned];
+
+  return (
+    <div className="card stack" style={{ borderColor: "#93C5FD" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <div className="badge">
+          <strong>Shared mapping (read-only preview)</strong>
+          <span className="muted">•</span>
+          <span>Schema {shared.version}</span>
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button className="primary" onClick={onImport}>Import into workspace</button>
+          <button className="secondary" onClick={onClose}>Close preview</button>
+        </div>
+      </div>
+
+      <p className="small muted" style={{ margin: 0 }}>
+        {programme.programmeTitle || "Untitled programme"}
+        {programme.awardLevel ? ` · ${programme.awardLevel}` : ""} · {programme.version || "no version"} ·{" "}
+        {programme.framework.name} · {items.length} item{items.length === 1 ? "" : "s"}. Importing adds it as a new
+        programme; your current mappings are not changed.
+      </p>
+      {shared.issues.length > 0 && (
+        <p className="small" style={{ margin: 0, color: "#92400E" }}>
+          Some fields were repaired when the link was read ({countImportIssues(shared.issues)}).
+        </p>
+      )}
+
+      <p className="small" style={{ margin: 0 }}>
+        {domains.map((d) => `${d.short} ${weightedCoverage[d.key]}`).join(" · ")}
+      </p>
+
+      <div style={{ overflowX: "auto", maxHeight: 360, border: "1px solid #E5E7EB", borderRadius: 6 }}>
+        <table style={{ borderCollapse: "collapse", width: "100%" }}>
+          <thead>
+            <tr>
+              {["Item", "Type", ...domains.map((d) => d.short)].map((h) => (
+                <th key={h} style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ordered.map((it) => (
+              <tr key={it.id} style={{ borderTop: "1px solid #E5E7EB" }}>
+                <td className="small" style={{ padding: 8, paddingLeft: it.parentId ? 24 : 8 }}>{it.name || "Untitled"}</td>
+                <td className="small" style={{ padding: 8 }}>{it.type}</td>
+                {domains.map((d) => {
+                  const depth = it.domains[d.key];
+                  return (
+                    <td key={d.key} className="small" style={{ padding: 8 }}>
+                      {depth ? DEPTH_SHORT[depth] : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Report styles live inside the report itself, so a saved HTML copy looks the
+ * same as the print view without the app stylesheet.
+ */
+const REPORT_CSS = `
+.programme-report { max-width: 960px; margin: 0 auto; padding: 32px 24px; color: #111111; background: #FFFFFF;
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", sans-serif; font-size: 13px; line-height: 1.5; }
+.programme-report h1 { font-size: 24px; margin: 0 0 4px; }
+.programme-report h2 { font-size: 17px; margin: 28px 0 10px; padding-bottom: 4px; border-bottom: 1px solid #E5E7EB; break-after: avoid; }
+.programme-report h3 { font-size: 14px; margin: 18px 0 6px; break-after: avoid; }
+.programme-report p { margin: 0 0 8px; }
+.programme-report ul { margin: 0 0 8px; padding-left: 20px; }
+.programme-report .report-muted { color: #666666; }
+.programme-report .report-meta { display: grid; grid-template-columns: 180px 1fr; gap: 2px 12px; margin: 12px 0; }
+.programme-report .report-meta dt { color: #666666; }
+.programme-report .report-meta dd { margin: 0; }
+.programme-report table { border-collapse: collapse; width: 100%; margin: 0 0 12px; }
+.programme-report th, .programme-report td { text-align: left; vertical-align: top; padding: 5px 6px; border-bottom: 1px solid #E5E7EB; }
+.programme-report th { font-size: 11px; color: #666666; font-weight: 600; }
+.programme-report thead { display: table-header-group; }
+.programme-report tr, .programme-report figure { break-inside: avoid; }
+.programme-report figure { margin: 0 0 12px; }
+.programme-report svg { max-width: 100%; height: auto; }
+.programme-report .report-page { break-before: page; }
+@page { size: A4; margin: 16mm 14mm; }
+@media print {
+  .programme-report { max-width: none; padding: 0; font-size: 11px; }
+  .programme-report h2 { margin-top: 18px; }
+}
+`;
+
+/** Heatmap rows per SVG, so long programmes split across printed pages. */
+const REPORT_HEATMAP_ROWS = 28;
+
+function truncateLabel(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Static item × domain heatmap, shaded like the on-screen matrix. */
+function ReportHeatmapSvg({
+  rows,
+  domains,
+  cellOpacity,
+}: {
+  rows: { number: number; item: MapItem }[];
+  domains: Domain[];
+  cellOpacity: (item: MapItem, key: DomainKey) => number;
+}) {
+  const labelW = 240;
+  const cellW = 48;
+  const cellH = 22;
+  const headerH = 26;
+  const width = labelW + domains.length * cellW + 4;
+  const height = headerH + rows.length * cellH + 4;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      role="img"
+      aria-label="Domain coverage heatmap"
+      fontFamily="system-ui, sans-serif"
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#FFFFFF" />
+      <text x={4} y={17} fontSize={11} fill="#666666">Item</text>
+      {domains.map((d, di) => (
+        <text key={d.key} x={labelW + di * cellW + cellW / 2} y={17} fontSize={11} fill="#666666" textAnchor="middle">
+          <title>{d.name}</title>
+          {d.short}
+        </text>
+      ))}
+      {rows.map(({ number, item }, ri) => {
+        const y = headerH + ri * cellH;
+        return (
+          <g key={item.id}>
+            <line x1={0} y1={y} x2={width} y2={y} stroke="#E5E7EB" />
+            <text x={item.parentId ? 16 : 4} y={y + 15} fontSize={11} fill="#111111">
+              {number}. {truncateLabel(item.name.trim() || "Untitled", item.parentId ? 32 : 34)}
+            </text>
+            {domains.map((d, di) => {
+              const depth = item.domains[d.key];
+              const opacity = cellOpacity(item, d.key);
+              const x = labelW + di * cellW + 3;
+              return (
+                <g key={d.key}>
+                  <rect
+                    x={x}
+                    y={y + 3}
+                    width={cellW - 6}
+                    height={cellH - 6}
+                    rx={3}
+                    fill={depth ? `rgba(17, 17, 17, ${opacity})` : "#FFFFFF"}
+                    stroke={depth ? "#111111" : "#E5E7EB"}
+                    strokeDasharray={depth ? undefined : "3 2"}
+                  />
+                  {depth && (
+                    <text
+                      x={x + (cellW - 6) / 2}
+                      y={y + 15}
+                      fontSize={10}
+                      fontWeight={600}
+                      textAnchor="middle"
+                      fill={opacity > 0.5 ? "#FFFFFF" : "#111111"}
+                    >
+                      <title>{`${d.name}: ${depth}`}</title>
+                      {DEPTH_SHORT[depth]}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Horizontal intensity bars per domain, with the target marked when one is set. */
+function ReportDomainBarsSvg({
+  domains,
+  weightedCoverage,
+  gapFindings,
+  targetComparison,
+}: {
+  domains: Domain[];
+  weightedCoverage: Record<DomainKey, number>;
+  gapFindings: GapFinding[];
+  targetComparison: TargetComparison | null;
+}) {
+  const labelW = 190;
+  const barW = 420;
+  const rowH = 28;
+  const width = labelW + barW + 60;
+  const height = domains.length * rowH + 8;
+  const targets = targetIntensities(targetComparison, weightedCoverage);
+  const maxVal = Math.max(1, ...domains.map((d) => Math.max(weightedCoverage[d.key], targets.get(d.key) ?? 0)));
+  const scale = (val: number) => (val / maxVal) * barW;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      role="img"
+      aria-label="Coverage intensity per domain"
+      fontFamily="system-ui, sans-serif"
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#FFFFFF" />
+      {domains.map((d, di) => {
+        const y = 4 + di * rowH;
+        const val = weightedCoverage[d.key];
+        // Findings are sorted by severity, so the first is the most severe.
+        const finding = gapFindings.find((f) => f.domain === d.key);
+        const target = targets.get(d.key);
+        return (
+          <g key={d.key}>
+            <text x={0} y={y + 16} fontSize={11} fill="#111111">
+              {truncateLabel(d.name, 30)}
+            </text>
+            <rect x={labelW} y={y + 6} width={barW} height={12} rx={2} fill="#F3F4F6" />
+            <rect
+              x={labelW}
+              y={y + 6}
+              width={scale(val)}
+              height={12}
+              rx={2}
+              fill={finding ? SEVERITY_STYLES[finding.severity].bar : "#111111"}
+            />
+            {target !== undefined && (
+              <line x1={labelW + scale(target)} y1={y + 2} x2={labelW + scale(target)} y2={y + 22} stroke="#2563EB" strokeWidth={2}>
+                <title>{`Target ${target}`}</title>
+              </line>
+            )}
+            <text x={labelW + barW + 8} y={y + 16} fontSize={11} fill="#666666">
+              {val}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * A print-ready programme report. The same markup is printed (or saved as PDF
+ * from the print dialog) and saved as a standalone HTML file.
+ */
+function ProgrammeReport({
+  programme,
+  items,
+  weightedCoverage,
+  observations,
+  gapFindings,
+  targetComparison,
+  timeline,
+  moduleRollup,
+  cellOpacity,
+  onClose,
+}: {
+  programme: ProgrammeDetails;
+  items: MapItem[];
+  weightedCoverage: Record<DomainKey, number>;
+  observations: string[];
+  gapFindings: GapFinding[];
+  targetComparison: TargetComparison | null;
+  timeline: TimelinePoint[];
+  moduleRollup: ModuleRollup[];
+  cellOpacity: (item: MapItem, key: DomainKey) => number;
+  onClose: () => void;
+}) {
+  const reportRef = useRef<HTMLElement | null>(null);
+  const [generatedAt] = useState(() => new Date().toISOString());
+
+  const domains = programme.framework.domains;
+  const title = programme.programmeTitle.trim() || "Programme mapping";
+  const review = programme.review;
+  const itemNumber = new Map(items.map((it, i) => [it.id, i + 1]));
+  const itemsById = new Map(items.map((it) => [it.id, it]));
+  const stageLabels = new Map(programme.stages.map((st) => [st.id, st.label || st.kind]));
+  const rollups = new Map(moduleRollup.map((r) => [r.moduleId, r]));
+  const hierarchy = buildHierarchy(items);
+  const ordered = [...hierarchy.modules.flatMap((g) => [g.module, ...g.children]), ...hierarchy.unassigned];
+  const heatmapRows = ordered.map((item) => ({ number: itemNumber.get(item.id) ?? 0, item }));
+  const heatmapPages: (typeof heatmapRows)[] = [];
+  for (let i = 0; i < heatmapRows.length; i += REPORT_HEATMAP_ROWS) {
+    heatmapPages.push(heatmapRows.slice(i, i + REPORT_HEATMAP_ROWS));
+  }
+  const programmeNotes = (Object.keys(GOVERNANCE_NOTE_LABELS) as GovernanceNoteField[]).filter((f) =>
+    programme[f]?.trim()
+  );
+  const register = buildGovernanceRegister(items, todayISODate());
+
+  function saveHtml() {
+    if (!reportRef.current) return;
+    const slug = safeSlug(programme.programmeTitle || "programme-mapping") || "programme-mapping";
+    downloadHtml(
+      `${slug}-report-${programme.mappingDate || todayISODate()}.html`,
+      buildStandaloneHtml(`${title} — ${TOOL_NAME}`, reportRef.current.outerHTML)
+    );
+  }
+
+  const meta: [string, string][] = [
+    ["Award / level", programme.awardLevel.trim()],
+    ["Department / faculty", programme.department.trim()],
+    ["Institution", programme.institution.trim()],
+    ["Mapping date", programme.mappingDate.trim() || todayISODate()],
+    ["Version", programme.version.trim()],
+    ["Capability framework", `${programme.framework.name} (v${programme.framework.version})`],
+    ["Scoring model", SCORING_MODEL_LABELS[programme.scoringModel]],
+    [
+      "Review status",
+      `${review.status}${review.statusChangedBy ? ` — ${review.statusChangedBy}` : ""}${
+        review.statusChangedAt ? `, ${formatTimestamp(review.statusChangedAt)}` : ""
+      }`,
+    ],
+    ["Items", `${items.length}`],
+  ];
+
+  const renderItemTable = (list: MapItem[]) => (
+    <table>
+      <thead>
+        <tr>
+          {["#", "Type", "Item", "Stage", "AI exposure", "Domain depth", "Notes"].map((h) => (
+            <th key={h}>{h}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {list.map((it) => {
+          const stageId = effectiveStageId(it, itemsById);
+          const tags = domains.filter((d) => it.domains[d.key]).map((d) => `${d.short} (${it.domains[d.key]})`);
+          return (
+            <tr key={it.id}>
+              <td>{itemNumber.get(it.id)}</td>
+              <td>{it.type}</td>
+              <td>{it.name.trim() || "Untitled"}</td>
+              <td>{(stageId && stageLabels.get(stageId)) || "—"}</td>
+              <td>{it.exposure}</td>
+              <td>{tags.length ? tags.join(", ") : "None"}</td>
+              <td style={{ whiteSpace: "pre-wrap" }}>{it.notes.trim() || "—"}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div>
+      <div
+        className="report-toolbar"
+        style={{ display: "flex", gap: 10, flexWrap: "wrap", justifyContent: "center", padding: 16, borderBottom: "1px solid #E5E7EB" }}
+      >
+        <button className="primary" onClick={() => window.print()}>Print / Save as PDF</button>
+        <button className="secondary" onClick={saveHtml}>Save as HTML</button>
+        <button className="secondary" onClick={onClose}>Back to mapping</button>
+      </div>
+
+      <article ref={reportRef} className="programme-report">
+        <style>{REPORT_CSS}</style>
+
+        <h1>{title}</h1>
+        <p className="report-muted">
+          Programme capability mapping report · generated {formatTimestamp(generatedAt)} with {TOOL_NAME}
+        </p>
+        <dl className="report-meta">
+          {meta.map(([label, value]) => (
+            <div key={label} style={{ display: "contents" }}>
+              <dt>{label}</dt>
+              <dd>{value || "—"}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <h2>Coverage intensity</h2>
+        <figure>
+          <ReportDomainBarsSvg
+            domains={domains}
+            weightedCoverage={weightedCoverage}
+            gapFindings={gapFindings}
+            targetComparison={targetComparison}
+          />
+          {targetComparison && (
+            <figcaption className="report-muted">
+              Blue marks show the target profile “{programme.targetProfile?.name}” ({targetComparison.percentMet}% of
+              the target distribution met), scaled to this programme's total intensity.
+            </figcaption>
+          )}
+        </figure>
+        {gapFindings.length > 0 && (
+          <table>
+            <thead>
+              <tr>
+                <th>Severity</th>
+                <th>Finding</th>
+                <th>Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gapFindings.map((f, i) => (
+                <tr key={i}>
+                  <td style={{ color: SEVERITY_STYLES[f.severity].color, fontWeight: 600 }}>{f.severity}</td>
+                  <td>{f.name}</td>
+                  <td>{f.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h3>Key observations</h3>
+        <ul>
+          {observations.map((line, i) => (
+            <li key={i}>{line}</li>
+          ))}
+        </ul>
+
+        <h2 className="report-page">Domain coverage heatmap</h2>
+        <p className="report-muted">
+          Cells show each domain’s depth (I Introduced · D Developed · Ap Applied · As Assessed), shaded by intensity.
+          Nested activities and assessments are indented under their module.
+        </p>
+        {heatmapPages.length === 0 && <p className="report-muted">No items mapped yet.</p>}
+        {heatmapPages.map((rows, i) => (
+          <figure key={i} className={i > 0 ? "report-page" : undefined}>
+            <ReportHeatmapSvg rows={rows} domains={domains} cellOpacity={cellOpacity} />
+          </figure>
+        ))}
+
+        {timeline.length > 0 && (
+          <>
+            <h3>Student journey timeline</h3>
+            <figure>
+              <TimelineChart timeline={timeline} domains={domains} />
+            </figure>
+          </>
+        )}
+
+        <h2 className="report-page">Governance notes</h2>
+        <h3>Programme</h3>
+        {programmeNotes.length === 0 ? (
+          <p className="report-muted">No programme-level governance notes recorded.</p>
+        ) : (
+          <ul>
+            {programmeNotes.map((f) => (
+              <li key={f} style={{ whiteSpace: "pre-wrap" }}>
+                <strong>{GOVERNANCE_NOTE_LABELS[f]}:</strong> {programme[f]!.trim()}
+              </li>
+            ))}
+          </ul>
+        )}
+        <h3>Governance register</h3>
+        {register.length === 0 ? (
+          <p className="report-muted">No item-level governance notes recorded.</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                {["#", "Item", "Risks or concerns", "Risk owner", "Review due"].map((h) => (
+                  <th key={h}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {register.map((r) => (
+                <tr key={r.itemId}>
+                  <td>{itemNumber.get(r.itemId)}</td>
+                  <td>
+                    {r.name.trim() || "Untitled"} <span className="report-muted">({r.type})</span>
+                  </td>
+                  <td style={{ whiteSpace: "pre-wrap" }}>{r.risks?.trim() || "—"}</td>
+                  <td>{r.riskOwner?.trim() || (r.risks ? <strong style={{ color: "#B91C1C" }}>Unowned</strong> : "—")}</td>
+                  <td style={{ color: r.overdue ? "#B91C1C" : undefined }}>
+                    {r.reviewDue ? `${r.reviewDue}${r.overdue ? " (overdue)" : ""}` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h2 className="report-page">Mapping items</h2>
+        {hierarchy.modules.length === 0 && hierarchy.unassigned.length === 0 && (
+          <p className="report-muted">No items mapped yet.</p>
+        )}
+        {hierarchy.modules.map(({ module, children }) => {
+          const rollup = rollups.get(module.id);
+          const profile = rollup
+            ? domains
+                .filter((d) => rollup.weightedCoverage[d.key] > 0)
+                .map((d) => `${d.short} ${rollup.weightedCoverage[d.key]}`)
+                .join(" · ")
+            : "";
+          return (
+            <div key={module.id}>
+              <h3>{module.name.trim() || "Untitled module"}</h3>
+              {profile && <p className="report-muted">Module capability profile: {profile}</p>}
+              {renderItemTable([module, ...children])}
+            </div>
+          );
+        })}
+        {hierarchy.unassigned.length > 0 && (
+          <>
+            <h3>Unassigned activities and assessments</h3>
+            {renderItemTable(hierarchy.unassigned)}
+          </>
+        )}
+
+        <p className="report-muted" style={{ marginTop: 24 }}>{PRIVACY_TEXT}</p>
+      </article>
+    </div>
+  );
+}
+
+type ComparisonSource = { kind: "workspace"; id: string } | { kind: "file"; side: ComparisonSide };
+
+function ComparisonPanel({
+  entries,
+  activeId,
+  programme,
+  items,
+}: {
+  entries: WorkspaceEntry[];
+  activeId: string;
+  programme: ProgrammeDetails;
+  items: MapItem[];
+}) {
+  const [before, setBefore] = useState<ComparisonSource | null>(null);
+  const [after, setAfter] = useState<ComparisonSource | null>({ kind: "workspace", id: activeId });
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const pendingSide = useRef<"before" | "after">("before");
+
+  function resolve(source: ComparisonSource | null): ComparisonSide | null {
+    if (!source) return null;
+    if (source.kind === "file") return source.side;
+    const entry = entries.find((e) => e.id === source.id);
+    if (!entry) return null;
+    // The open programme is compared as currently edited.
+    return entry.id === activeId
+      ? { label: entryDisplayName(entry), programme, items }
+      : { label: entryDisplayName(entry), programme: entry.programme, items: entry.items };
+  }
+
+  const beforeSide = resolve(before);
+  const afterSide = resolve(after);
+  const comparable =
+    !!beforeSide && !!afterSide && sameFramework(beforeSide.programme.framework, afterSide.programme.framework);
+  const comparison = beforeSide && afterSide && comparable ? compareMappings(beforeSide, afterSide) : null;
+  const domains = afterSide?.programme.framework.domains ?? programme.framework.domains;
+
+  function selectValue(source: ComparisonSource | null): string {
+    if (!source) return "";
+    return source.kind === "workspace" ? source.id : "__file";
+  }
+
+  function onSelect(side: "before" | "after", value: string) {
+    const set = side === "before" ? setBefore : setAfter;
+    if (value === "__choose_file") {
+      pendingSide.current = side;
+      fileInputRef.current?.click();
+      return;
+    }
+    set(value ? { kind: "workspace", id: value } : null);
+  }
+
+  async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = "";
+
+    const loaded = await readMappingFile(file);
+    if (!loaded) {
+      window.alert("That file could not be parsed as JSON.");
+      return;
+    }
+    const source: ComparisonSource = { kind: "file", side: { label: file.name, ...loaded } };
+    if (pendingSide.current === "before") setBefore(source);
+    else setAfter(source);
+  }
+
+  function exportComparison() {
+    if (!beforeSide || !afterSide || !comparison) return;
+    const md = buildComparisonMarkdown({
+      toolName: TOOL_NAME,
+      exportedAtISO: new Date().toISOString(),
+      before: beforeSide,
+      after: afterSide,
+      comparison,
+    });
+    const safeTitle =
+      safeSlug(afterSide.programme.programmeTitle || "programme-mapping") || "programme-mapping";
+    downloadText(`${safeTitle}-changes-${todayISODate()}.md`, md);
+  }
+
+  const renderPicker = (side: "before" | "after", source: ComparisonSource | null) => (
+    <div className="stack-tight">
+      <label>{side === "before" ? "Earlier mapping (baseline)" : "Later mapping"}</label>
+      <select value={selectValue(source)} onChange={(e) => onSelect(side, e.target.value)}>
+        <option value="">Choose…</option>
+        {entries.map((e) => (
+          <option key={e.id} value={e.id}>
+            {entryDisplayName(e)} ({(e.id === activeId ? programme : e.programme).version || "no version"})
+          </option>
+        ))}
+        {source?.kind === "file" && <option value="__file">File: {source.side.label}</option>}
+        <option value="__choose_file">Load from JSON export…</option>
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="stack">
+      <div className="row">
+        {renderPicker("before", before)}
+        {renderPicker("after", after)}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json"
+        style={{ display: "none" }}
+        onChange={(e) => void onFileChange(e)}
+      />
+
+      {beforeSide && afterSide && !comparable ? (
+        <p className="small muted">
+          These mappings use different capability frameworks ({beforeSide.programme.framework.name} v
+          {beforeSide.programme.framework.version} and {afterSide.programme.framework.name} v
+          {afterSide.programme.framework.version}), so their domains cannot be compared.
+        </p>
+      ) : !comparison ? (
+        <p className="small muted">Choose two mappings to see what changed between them.</p>
+      ) : (
+        <div className="stack">
+          <table style={{ borderCollapse: "collapse", width: "100%" }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>Domain</th>
+                <th style={{ textAlign: "right", fontSize: 11, padding: 8, color: "#777" }}>Tagged items</th>
+                <th style={{ textAlign: "right", fontSize: 11, padding: 8, color: "#777" }}>Intensity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.domainDeltas.map((delta) => {
+                const d = domains.find((dom) => dom.key === delta.key);
+                return (
+                  <tr key={delta.key} style={{ borderTop: "1px solid #E5E7EB" }}>
+                    <td className="small" style={{ padding: 8, fontWeight: 600 }}>{d?.name}</td>
+                    <td className="small" style={{ padding: 8, textAlign: "right" }}>
+                      {delta.coverageBefore} → {delta.coverageAfter} ({formatDelta(delta.coverageBefore, delta.coverageAfter)})
+                    </td>
+                    <td className="small" style={{ padding: 8, textAlign: "right" }}>
+                      {delta.weightedBefore} → {delta.weightedAfter} ({formatDelta(delta.weightedBefore, delta.weightedAfter)})
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="row">
+            <div className="stack-tight">
+              <div className="badge">Added ({comparison.added.length})</div>
+              {comparison.added.map((it) => (
+                <span key={it.id} className="small">
+                  {it.type}: {it.name || "Untitled"}
+                </span>
+              ))}
+            </div>
+            <div className="stack-tight">
+              <div className="badge">Removed ({comparison.removed.length})</div>
+              {comparison.removed.map((it) => (
+                <span key={it.id} className="small">
+                  {it.type}: {it.name || "Untitled"}
+                </span>
+              ))}
+            </div>
+            <div className="stack-tight">
+              <div className="badge">Retagged ({comparison.retagged.length})</div>
+              {comparison.retagged.map((r) => (
+                <span key={r.after.id} className="small">
+                  {r.after.type}: {r.after.name || "Untitled"} — {r.changes.map((c) => describeDepthChange(c, domains)).join("; ")}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <button className="secondary" onClick={exportComparison}>
+              Export changes (Markdown)
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function App() {
-  const initial = loadState();
+  const [workspace, setWorkspace] = useState<Workspace>(loadWorkspace);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const [programme, setProgramme] = useState<ProgrammeDetails>(() => activeEntry(workspace).programme);
+  const [itemHistory, setItemHistory] = useState<ItemHistory>(() => ({
+    past: [],
+    present: activeEntry(workspace).items,
+    future: [],
+  }));
+  const items = itemHistory.present;
 
-  const [programme, setProgramme] = useState<ProgrammeDetails>(initial.programme);
-  const [items, setItems] = useState<MapItem[]>(initial.items);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>(loadSnapshots);
+  const [targetTemplates, setTargetTemplates] = useState<TargetProfile[]>(loadTargetProfiles);
+  const [previewSnapshotId, setPreviewSnapshotId] = useState<string | null>(null);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [pendingImport, setPendingImport] = useState<(ExportValidation & { fileName: string }) | null>(null);
+  const [pendingInterchange, setPendingInterchange] = useState<PendingInterchange | null>(null);
+  const [sharedPreview, setSharedPreview] = useState<ExportValidation | null>(null);
+  const [auditTrail, setAuditTrail] = useState<AuditEntry[]>(loadAuditTrail);
+  const [actor, setActor] = useState(() => localStorage.getItem(ACTOR_STORAGE_KEY) ?? "");
+  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
+  const auditBaseline = useRef({ programmeId: workspace.activeId, programme, items });
+  const review = programme.review;
+  const readOnly = review.status === "Approved";
+  const programmeAudit = auditTrail.filter((e) => e.programmeId === workspace.activeId);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const frameworkInputRef = useRef<HTMLInputElement | null>(null);
+  const targetInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({ programme, items }));
-  }, [programme, items]);
+    localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshots));
+  }, [snapshots]);
 
-  const coverage = useMemo(() => {
-    const counts: Record<DomainKey, number> = {
-      awareness: 0, coagency: 0, practice: 0, ethics: 0, governance: 0, reflection: 0,
-    };
-    for (const item of items) {
-      (Object.keys(item.domains) as DomainKey[]).forEach((k) => {
-        if (item.domains[k]) counts[k] += 1;
-      });
+  // Open a shared mapping from the URL fragment, on load or when a link is pasted into this tab.
+  useEffect(() => {
+    async function readShareFragment() {
+      const hash = window.location.hash;
+      if (!hash.startsWith(SHARE_FRAGMENT_PREFIX)) return;
+      let validation: ExportValidation | { error: string };
+      try {
+        validation = validateExportPayload(await decodeSharePayload(hash.slice(SHARE_FRAGMENT_PREFIX.length)));
+      } catch {
+        validation = { error: "The link is incomplete or damaged." };
+      }
+      if ("error" in validation) {
+        window.alert(`This share link cannot be opened. ${validation.error}`);
+        return;
+      }
+      setSharedPreview(validation);
     }
-    return counts;
-  }, [items]);
+    void readShareFragment();
+    const onHashChange = () => void readShareFragment();
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
 
-  const weightedCoverage = useMemo(() => {
-    const density: Record<DomainKey, number> = {
-      awareness: 0, coagency: 0, practice: 0, ethics: 0, governance: 0, reflection: 0,
-    };
-    for (const item of items) {
-      const w = WEIGHT_MAP[item.weight] || 2;
-      (Object.keys(item.domains) as DomainKey[]).forEach((k) => {
-        if (item.domains[k]) density[k] += w;
-      });
+  useEffect(() => {
+    localStorage.setItem(TARGET_PROFILE_STORAGE_KEY, JSON.stringify(targetTemplates));
+  }, [targetTemplates]);
+
+  useEffect(() => {
+    localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(auditTrail));
+  }, [auditTrail]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTOR_STORAGE_KEY, actor);
+  }, [actor]);
+
+  // Log edits once they pause. Switching programme moves the baseline without logging;
+  // openEntry flushes pending edits first.
+  useEffect(() => {
+    const programmeId = workspace.activeId;
+    if (auditBaseline.current.programmeId !== programmeId) {
+      auditBaseline.current = { programmeId, programme, items };
+      return;
     }
-    return density;
-  }, [items]);
+    const timer = window.setTimeout(() => {
+      const detail = describeAuditEdit(auditBaseline.current, { programme, items });
+      auditBaseline.current = { programmeId, programme, items };
+      if (detail) setAuditTrail((prev) => addAuditEntry(prev, newAuditEntry(programmeId, "Edit", actor, detail)));
+    }, AUDIT_EDIT_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [workspace.activeId, programme, items, actor]);
+
+  // Edits still waiting out the delay when the page closes are logged straight away.
+  useEffect(() => {
+    const onPageHide = () => {
+      const programmeId = workspace.activeId;
+      if (auditBaseline.current.programmeId !== programmeId) return;
+      const detail = describeAuditEdit(auditBaseline.current, { programme, items });
+      if (!detail) return;
+      auditBaseline.current = { programmeId, programme, items };
+      const next = addAuditEntry(auditTrail, newAuditEntry(programmeId, "Edit", actor, detail));
+      // The page may not render again, so the trail is saved here rather than by its effect.
+      localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(next));
+      setAuditTrail(next);
+    };
+    window.addEventListener("pagehide", onPageHide);
+    return () => window.removeEventListener("pagehide", onPageHide);
+  }, [workspace.activeId, programme, items, actor, auditTrail]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      WORKSPACE_STORAGE_KEY,
+      JSON.stringify(syncActiveEntry(workspace, programme, items))
+    );
+  }, [workspace, programme, items]);
+
+  const domains = programme.framework.domains;
+
+  // Stable while nothing changes, so the merge plan is not recomputed on every render.
+  const currentMapping = useMemo(() => ({ programme, items }), [programme, items]);
+
+  const scoreItem = useMemo(
+    () => makeItemScorer(items, programme.scoringModel),
+    [items, programme.scoringModel]
+  );
+
+  const { coverage, weightedCoverage } = useMemo(
+    () => tallyCoverage(items, domains, scoreItem),
+    [items, domains, scoreItem]
+  );
+  const coverageByType = useMemo(
+    () => tallyByItemType(items, domains, scoreItem),
+    [items, domains, scoreItem]
+  );
+  const cooccurrence = useMemo(() => tallyCooccurrence(items, domains), [items, domains]);
+
+  const hierarchy = useMemo(() => buildHierarchy(items), [items]);
+  const moduleRollup = useMemo(
+    () => buildModuleRollup(items, domains, scoreItem),
+    [items, domains, scoreItem]
+  );
+
+  const timeline = useMemo(
+    () => buildTimeline(items, programme.stages, domains, scoreItem),
+    [items, programme.stages, domains, scoreItem]
+  );
+
+  const indicatorCoverage = useMemo(
+    () => tallyIndicators(items, domains, scoreItem),
+    [items, domains, scoreItem]
+  );
+
+  const traceability = useMemo(
+    () => buildTraceability(programme.outcomes, items, domains, programme.stages),
+    [programme.outcomes, items, domains, programme.stages]
+  );
+  const domainTraceFlags = useMemo(
+    () => buildDomainTraceFlags(items, domains, programme.stages),
+    [items, domains, programme.stages]
+  );
+
+  const traceGaps = useMemo(
+    () => describeTraceGaps(traceability, domainTraceFlags),
+    [traceability, domainTraceFlags]
+  );
+
+  const exposureTotal = useMemo(() => sumExposure(items), [items]);
+  const alignmentFlags = useMemo(() => buildAlignmentFlags(items, domains), [items, domains]);
+
+  const gapFindings = useMemo(
+    () => evaluateGapRules(programme.gapRules, items, weightedCoverage, domains),
+    [programme.gapRules, items, weightedCoverage, domains]
+  );
+
+  const targetComparison = useMemo(
+    () => (programme.targetProfile ? compareToTarget(weightedCoverage, programme.targetProfile, domains) : null),
+    [programme.targetProfile, weightedCoverage, domains]
+  );
 
   const observations = useMemo(() => {
     const lines: string[] = [];
@@ -380,74 +4924,608 @@ export default function App() {
 
     lines.push(
       `The programme includes ${totalItems} mapped item${totalItems === 1 ? "" : "s"}. ` +
-      "Embedding intensity varies across domains based on activity weighting (Low/Medium/High)."
+      (programme.scoringModel === "credit-weighted"
+        ? "Embedding intensity varies across domains based on per-domain depth (Introduced to Assessed), scaled by module credits, assessment weighting and contact hours."
+        : "Embedding intensity varies across domains based on per-domain depth (Introduced to Assessed).")
     );
 
+    // Gap rules are reported once, under Gap findings; only their tally appears here.
     const totalWeighted = Object.values(weightedCoverage).reduce((a, b) => a + b, 0);
-    const avgWeighted = totalWeighted / DOMAINS.length;
-
-    const primaryGaps = DOMAINS.filter(d => weightedCoverage[d.key] === 0);
-    const secondaryGaps = DOMAINS.filter(d => {
-      const val = weightedCoverage[d.key];
-      return val > 0 && val < (avgWeighted * 0.5);
-    });
-
-    if (primaryGaps.length > 0) {
-      lines.push(
-        `**Primary Gap Detected:** No explicit coverage found for ${primaryGaps.map(d => d.name).join(", ")}. ` +
-        "This indicates these domains are currently unowned or implicit in the curriculum design."
-      );
+    if (gapFindings.length > 0) {
+      const tally = SEVERITY_LEVELS.map((sev) => [sev, gapFindings.filter((f) => f.severity === sev).length] as const)
+        .filter(([, n]) => n > 0)
+        .map(([sev, n]) => `${n} ${sev.toLowerCase()}`)
+        .join(", ");
+      lines.push(`**Gap findings:** ${tally} severity finding${gapFindings.length === 1 ? "" : "s"} from the programme's gap rules.`);
+    } else if (totalWeighted > 0) {
+      lines.push("Domain coverage appears relatively balanced across the programme, with no gap rules triggered.");
     }
 
-    if (secondaryGaps.length > 0) {
-      lines.push(
-        `**Secondary Gap Detected:** Relatively low embedding intensity for ${secondaryGaps.map(d => d.name).join(", ")} ` +
-        "(below 50% of the programme average). These domains may benefit from more explicit focus in future review cycles."
-      );
-    }
+    if (targetComparison) lines.push(describeTargetDistance(targetComparison));
+    if (programme.baseline) lines.push(...buildBaselineObservations(programme.baseline, gapFindings, domains));
 
-    if (totalWeighted > 0 && primaryGaps.length === 0 && secondaryGaps.length === 0) {
-      lines.push("Domain coverage appears relatively balanced across the programme, with no stand-out gaps detected based on current weighting.");
-    }
+    lines.push(...buildTimelineObservations(timeline, domains));
+    lines.push(...buildIndicatorObservations(indicatorCoverage, domains));
 
     return lines;
-  }, [weightedCoverage, items.length]);
+  }, [weightedCoverage, gapFindings, targetComparison, programme.baseline, items.length, timeline, indicatorCoverage, programme.scoringModel, domains]);
 
   const totalItems = items.length;
   const totalDomainTags = useMemo(() => {
-    return DOMAINS.reduce((sum, d) => sum + coverage[d.key], 0);
-  }, [coverage]);
+    return domains.reduce((sum, d) => sum + coverage[d.key], 0);
+  }, [coverage, domains]);
   const hasAnyTag = totalDomainTags > 0;
 
+  function openEntry(next: Workspace, id: string) {
+    const target = next.programmes.find((e) => e.id === id);
+    if (!target) return;
+    flushAuditEdits();
+    setWorkspace({ ...next, activeId: id });
+    setProgramme(target.programme);
+    setItems(target.items);
+  }
+
+  function switchProgramme(id: string) {
+    if (id === workspace.activeId) return;
+    openEntry(syncActiveEntry(workspace, programme, items), id);
+  }
+
+  function createProgramme() {
+    const name = window.prompt("Name for the new programme mapping:", "");
+    if (name === null) return;
+    const entry = newWorkspaceEntry(name.trim() || "Untitled programme");
+    const synced = syncActiveEntry(workspace, programme, items);
+    openEntry({ ...synced, programmes: [...synced.programmes, entry] }, entry.id);
+  }
+
+  function duplicateProgramme() {
+    const current = activeEntry(workspace);
+    const name = window.prompt("Name for the copy:", `${entryDisplayName(current)} (copy)`);
+    if (name === null) return;
+    // Item ids are kept so the copy can later be compared with its source.
+    // The copy starts as a draft; reviewers and comments are kept.
+    const { reviewers, comments } = programme.review;
+    const entry = newWorkspaceEntry(
+      name.trim() || "Untitled programme",
+      { ...programme, review: { status: "Draft", reviewers, comments } },
+      items.map((it) => ({ ...it }))
+    );
+    const synced = syncActiveEntry(workspace, programme, items);
+    openEntry({ ...synced, programmes: [...synced.programmes, entry] }, entry.id);
+  }
+
+  function appendAudit(kind: AuditKind, detail: string, by = actor) {
+    setAuditTrail((prev) => addAuditEntry(prev, newAuditEntry(workspace.activeId, kind, by, detail)));
+  }
+
+  /** Log pending edits now, so they appear before the entry about to be added. */
+  function flushAuditEdits() {
+    const detail = describeAuditEdit(auditBaseline.current, { programme, items });
+    auditBaseline.current = { programmeId: workspace.activeId, programme, items };
+    if (detail) appendAudit("Edit", detail);
+  }
+
+  /** Ask who is acting, remembering the name for next time. Returns null if cancelled. */
+  function askActor(question: string): string | null {
+    const name = window.prompt(question, actor);
+    if (name === null || !name.trim()) return null;
+    setActor(name.trim());
+    return name.trim();
+  }
+
+  function blockIfReadOnly(): boolean {
+    if (!readOnly) return false;
+    window.alert("This mapping is Approved and read-only. Reopen it to make changes.");
+    return true;
+  }
+
+  function updateReview(patch: Partial<ReviewState>) {
+    setProgramme((prev) => ({ ...prev, review: { ...prev.review, ...patch } }));
+  }
+
+  function changeStatus(next: MappingStatus) {
+    const signOff = next === "Approved" || next === "Changes requested";
+    if (signOff && review.reviewers.length === 0) {
+      window.alert("Add a named reviewer first. Only a named reviewer can approve a mapping or request changes.");
+      return;
+    }
+    if (
+      readOnly &&
+      !window.confirm("Reopen this approved mapping?\n\nIt becomes editable again and will need to be approved again.")
+    ) {
+      return;
+    }
+
+    const by = askActor(
+      signOff
+        ? `${next === "Approved" ? "Approved" : "Changes requested"} by (${review.reviewers.map((r) => r.name).join(", ")}):`
+        : "Your name (recorded in the audit trail):"
+    );
+    if (!by) return;
+    if (signOff && !review.reviewers.some((r) => normalizedName(r.name) === normalizedName(by))) {
+      window.alert(`“${by}” is not a named reviewer of this mapping. Add them as a reviewer first.`);
+      return;
+    }
+
+    flushAuditEdits();
+    updateReview({ status: next, statusChangedBy: by, statusChangedAt: new Date().toISOString() });
+    appendAudit("Status", `${review.status} → ${next}`, by);
+  }
+
+  function addReviewer() {
+    if (blockIfReadOnly()) return;
+    const name = window.prompt("Reviewer name:", "");
+    if (name === null || !name.trim()) return;
+    const role = window.prompt("Role (optional, e.g. Programme lead, QA officer):", "") ?? "";
+    updateReview({ reviewers: [...review.reviewers, { id: safeUUID(), name: name.trim(), role: role.trim() }] });
+    appendAudit("Reviewer", `Added ${name.trim()}${role.trim() ? ` (${role.trim()})` : ""}.`);
+  }
+
+  function removeReviewer(reviewer: Reviewer) {
+    if (blockIfReadOnly()) return;
+    if (!window.confirm(`Remove ${reviewer.name} as a reviewer?`)) return;
+    updateReview({ reviewers: review.reviewers.filter((r) => r.id !== reviewer.id) });
+    appendAudit("Reviewer", `Removed ${reviewer.name}.`);
+  }
+
+  function addComment(item: MapItem) {
+    const text = (commentDrafts[item.id] ?? "").trim();
+    if (!text) return;
+    const author = actor || askActor("Your name (shown with the comment):");
+    if (!author) return;
+    updateReview({
+      comments: [...review.comments, { id: safeUUID(), itemId: item.id, author, text, at: new Date().toISOString() }],
+    });
+    setCommentDrafts((prev) => ({ ...prev, [item.id]: "" }));
+    appendAudit(
+      "Comment",
+      `On “${item.name.trim() || "Untitled"}”: ${text.length > 80 ? `${text.slice(0, 80)}…` : text}`,
+      author
+    );
+  }
+
+  function renameProgramme() {
+    const current = activeEntry(workspace);
+    const name = window.prompt("Rename this programme mapping:", entryDisplayName(current));
+    if (name === null || !name.trim()) return;
+    setWorkspace((prev) => ({
+      ...prev,
+      programmes: prev.programmes.map((e) => (e.id === current.id ? { ...e, name: name.trim() } : e)),
+    }));
+  }
+
+  function setArchived(id: string, archived: boolean) {
+    const synced = syncActiveEntry(workspace, programme, items);
+    const next = {
+      ...synced,
+      programmes: synced.programmes.map((e) => (e.id === id ? { ...e, archived } : e)),
+    };
+
+    if (!archived || id !== workspace.activeId) {
+      setWorkspace(next);
+      return;
+    }
+
+    // Archiving the open programme moves to another live one (or a fresh mapping).
+    const fallback = next.programmes.find((e) => !e.archived);
+    if (fallback) {
+      openEntry(next, fallback.id);
+    } else {
+      const entry = newWorkspaceEntry("Untitled programme");
+      openEntry({ ...next, programmes: [...next.programmes, entry] }, entry.id);
+    }
+  }
+
+  function deleteProgramme() {
+    const current = activeEntry(workspace);
+    const ok = window.confirm(
+      `Delete “${entryDisplayName(current)}”?\n\nThis removes the mapping from this browser. You can export first if you want a backup.`
+    );
+    if (!ok) return;
+
+    const remaining = workspace.programmes.filter((e) => e.id !== current.id);
+    // Flushed before the prune so pending edits do not outlive the programme.
+    flushAuditEdits();
+    setSnapshots((prev) => prev.filter((sn) => sn.programmeId !== current.id));
+    setAuditTrail((prev) => prev.filter((e) => e.programmeId !== current.id));
+    const fallback = remaining.find((e) => !e.archived) ?? remaining[0];
+    if (fallback) {
+      openEntry({ ...workspace, programmes: remaining }, fallback.id);
+    } else {
+      const entry = newWorkspaceEntry("Untitled programme");
+      openEntry({ activeId: entry.id, programmes: [entry] }, entry.id);
+    }
+  }
+
   function updateProgramme(patch: Partial<ProgrammeDetails>) {
+    if (readOnly) return;
     setProgramme((prev) => ({ ...prev, ...patch }));
   }
 
+  function addStage(kind: StageKind) {
+    setProgramme((prev) => ({
+      ...prev,
+      stages: [...prev.stages, newStage(kind, prev.stages.filter((st) => st.kind === kind).length + 1)],
+    }));
+  }
+
+  function updateStage(id: string, patch: Partial<ProgrammeStage>) {
+    setProgramme((prev) => ({
+      ...prev,
+      stages: prev.stages.map((st) => (st.id === id ? { ...st, ...patch } : st)),
+    }));
+  }
+
+  function moveStage(id: string, delta: -1 | 1) {
+    setProgramme((prev) => {
+      const idx = prev.stages.findIndex((st) => st.id === id);
+      const target = idx + delta;
+      if (idx < 0 || target < 0 || target >= prev.stages.length) return prev;
+      const stages = [...prev.stages];
+      [stages[idx], stages[target]] = [stages[target], stages[idx]];
+      return { ...prev, stages };
+    });
+  }
+
+  function removeStage(id: string) {
+    setProgramme((prev) => ({ ...prev, stages: prev.stages.filter((st) => st.id !== id) }));
+    editItems((prev) =>
+      prev.map((it) => (it.stageId === id ? { ...it, stageId: undefined } : it))
+    );
+  }
+
+  function addOutcome(moduleId?: string) {
+    setProgramme((prev) => ({
+      ...prev,
+      outcomes: [...prev.outcomes, { id: safeUUID(), code: "", text: "", ...(moduleId ? { moduleId } : {}), domains: [] }],
+    }));
+  }
+
+  function updateOutcome(id: string, patch: Partial<LearningOutcome>) {
+    setProgramme((prev) => ({
+      ...prev,
+      outcomes: prev.outcomes.map((o) => (o.id === id ? { ...o, ...patch } : o)),
+    }));
+  }
+
+  function setOutcomeModule(id: string, moduleId: string) {
+    setProgramme((prev) => ({
+      ...prev,
+      outcomes: prev.outcomes.map((o) => {
+        if (o.id !== id) return o;
+        const next = { ...o };
+        delete next.moduleId;
+        return moduleId ? { ...next, moduleId } : next;
+      }),
+    }));
+  }
+
+  function toggleOutcomeDomain(id: string, key: DomainKey) {
+    setProgramme((prev) => ({
+      ...prev,
+      outcomes: prev.outcomes.map((o) =>
+        o.id === id
+          ? { ...o, domains: o.domains.includes(key) ? o.domains.filter((k) => k !== key) : [...o.domains, key] }
+          : o
+      ),
+    }));
+  }
+
+  function removeOutcome(id: string) {
+    setProgramme((prev) => ({ ...prev, outcomes: prev.outcomes.filter((o) => o.id !== id) }));
+    editItems((prev) =>
+      prev.map((it) => (it.outcomeIds?.includes(id) ? { ...it, outcomeIds: it.outcomeIds.filter((o) => o !== id) } : it))
+    );
+  }
+
+  function toggleAssessedOutcome(itemId: string, outcomeId: string) {
+    editItems((prev) =>
+      prev.map((it) => {
+        if (it.id !== itemId) return it;
+        const current = it.outcomeIds ?? [];
+        return {
+          ...it,
+          outcomeIds: current.includes(outcomeId) ? current.filter((o) => o !== outcomeId) : [...current, outcomeId],
+        };
+      })
+    );
+  }
+
+  function addGapRule(kind: GapRuleKind) {
+    setProgramme((prev) => ({
+      ...prev,
+      gapRules: [...prev.gapRules, newGapRule(kind, prev.framework.domains[0]?.key ?? "")],
+    }));
+  }
+
+  function updateGapRule(id: string, patch: Partial<GapRule>) {
+    setProgramme((prev) => ({
+      ...prev,
+      gapRules: prev.gapRules.map((r) => (r.id === id ? ({ ...r, ...patch } as GapRule) : r)),
+    }));
+  }
+
+  function removeGapRule(id: string) {
+    setProgramme((prev) => ({ ...prev, gapRules: prev.gapRules.filter((r) => r.id !== id) }));
+  }
+
+  function setTargetValue(key: DomainKey, value: string) {
+    setProgramme((prev) => {
+      if (!prev.targetProfile) return prev;
+      // Kept as typed; shares are rescaled to 100 when compared, saved or exported.
+      const targets = { ...prev.targetProfile.targets, [key]: Math.max(0, Number(value) || 0) };
+      return { ...prev, targetProfile: { ...prev.targetProfile, targets } };
+    });
+  }
+
+  /** Start a target from the current coverage, to be adjusted by hand. */
+  function newTargetFromCoverage() {
+    updateProgramme({
+      targetProfile: {
+        id: safeUUID(),
+        name: programme.awardLevel.trim() ? `${programme.awardLevel.trim()} target` : "Target profile",
+        awardLevel: programme.awardLevel,
+        frameworkId: programme.framework.id,
+        targets: toShares(weightedCoverage, domains),
+      },
+    });
+  }
+
+  function saveTargetTemplate() {
+    const profile = programme.targetProfile;
+    if (!profile) return;
+    const existing = targetTemplates.find((t) => t.id === profile.id);
+    if (existing && !window.confirm(`Update the saved template “${existing.name}”?`)) return;
+    setTargetTemplates((prev) => [
+      ...prev.filter((t) => t.id !== profile.id),
+      normalizeTargetProfile(profile, programme.framework) ?? profile,
+    ]);
+  }
+
+  function applyTargetTemplate(id: string) {
+    const template = targetTemplates.find((t) => t.id === id);
+    const profile = template ? normalizeTargetProfile(template, programme.framework) : null;
+    if (profile) updateProgramme({ targetProfile: profile });
+  }
+
+  function deleteTargetTemplate(id: string) {
+    const template = targetTemplates.find((t) => t.id === id);
+    if (!template || !window.confirm(`Delete the saved template “${template.name}”?`)) return;
+    setTargetTemplates((prev) => prev.filter((t) => t.id !== id));
+  }
+
+  async function importTargetTemplate(file: File) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      window.alert("That file could not be parsed as JSON.");
+      return;
+    }
+    const profile = normalizeTargetProfile(raw, programme.framework);
+    if (!profile) {
+      window.alert(`This file is not a target profile for ${programme.framework.name}.`);
+      return;
+    }
+    setTargetTemplates((prev) => [...prev.filter((t) => t.id !== profile.id), profile]);
+    updateProgramme({ targetProfile: profile });
+  }
+
+  function exportTargetTemplate() {
+    const profile = programme.targetProfile;
+    if (!profile) return;
+    downloadJSON(
+      `${safeSlug(profile.name) || "target-profile"}.json`,
+      normalizeTargetProfile(profile, programme.framework) ?? profile
+    );
+  }
+
+  /** Switch the programme's capability framework, dropping tags on domains the new framework lacks. */
+  function applyFramework(next: FrameworkDefinition) {
+    const keys = new Set(next.domains.map((d) => d.key));
+    const dropped = items.filter((it) => Object.keys(it.domains).some((k) => !keys.has(k) && it.domains[k])).length;
+    if (dropped > 0) {
+      const ok = window.confirm(
+        `${next.name} does not include every domain used in this mapping.\n\nTags on missing domains will be removed from ${dropped} item${dropped === 1 ? "" : "s"}. Continue?`
+      );
+      if (!ok) return;
+    }
+
+    setProgramme((prev) => ({
+      ...prev,
+      framework: next,
+      outcomes: prev.outcomes.map((o) => ({ ...o, domains: o.domains.filter((k) => keys.has(k)) })),
+      gapRules: normalizeGapRules(prev.gapRules, next.domains),
+      targetProfile: normalizeTargetProfile(prev.targetProfile, next) ?? undefined,
+    }));
+    editItems((prev) =>
+      prev.map((it) => {
+        const domainsKept = Object.fromEntries(Object.entries(it.domains).filter(([k]) => keys.has(k)));
+        const indicators = normalizeIndicators(it.indicators, domainsKept, next.domains);
+        const rest = { ...it, domains: domainsKept };
+        delete rest.indicators;
+        return indicators ? { ...rest, indicators } : rest;
+      })
+    );
+  }
+
+  async function loadFrameworkFile(file: File) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      window.alert("That file could not be parsed as JSON.");
+      return;
+    }
+
+    const parsed = parseFrameworkDefinition(raw);
+    if ("error" in parsed) {
+      window.alert(`This framework definition cannot be used: ${parsed.error}`);
+      return;
+    }
+    applyFramework(parsed.framework);
+  }
+
+  /** Replace the items outright (switch, import, clear, restore); this starts a fresh undo history. */
+  function setItems(next: MapItem[]) {
+    setItemHistory({ past: [], present: next, future: [] });
+  }
+
+  /** Apply an undoable edit to the items. */
+  function editItems(updater: (prev: MapItem[]) => MapItem[], coalesceKey?: string) {
+    if (readOnly) return;
+    setItemHistory((h) => {
+      const present = updater(h.present);
+      if (coalesceKey && coalesceKey === h.lastKey) return { ...h, present, future: [] };
+      return {
+        past: [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        lastKey: coalesceKey,
+      };
+    });
+  }
+
+  function undo() {
+    if (readOnly) return;
+    setItemHistory((h) =>
+      h.past.length === 0
+        ? h
+        : {
+            past: h.past.slice(0, -1),
+            // Stages, framework and outcomes are not part of the item history.
+            present: reconcileItemsWithProgramme(h.past[h.past.length - 1], programme),
+            future: [h.present, ...h.future],
+          }
+    );
+  }
+
+  function redo() {
+    if (readOnly) return;
+    setItemHistory((h) =>
+      h.future.length === 0
+        ? h
+        : {
+            past: [...h.past, h.present],
+            present: reconcileItemsWithProgramme(h.future[0], programme),
+            future: h.future.slice(1),
+          }
+    );
+  }
+
+  function takeSnapshot(name: string, auto: boolean) {
+    const snapshot: Snapshot = {
+      id: safeUUID(),
+      programmeId: workspace.activeId,
+      name,
+      takenAt: new Date().toISOString(),
+      auto,
+      programme,
+      items,
+    };
+    setSnapshots((prev) => addSnapshot(prev, snapshot));
+  }
+
+  function saveNamedSnapshot() {
+    const name = window.prompt("Name this snapshot:", programme.version ? `Snapshot ${programme.version}` : "Snapshot");
+    if (name === null) return;
+    takeSnapshot(name.trim() || "Snapshot", false);
+  }
+
+  function restoreSnapshot(snapshot: Snapshot) {
+    if (blockIfReadOnly()) return;
+    const ok = window.confirm(
+      `Restore “${snapshot.name}” (${formatTimestamp(snapshot.takenAt)})?\n\nYour current mapping will be saved as an automatic snapshot first.`
+    );
+    if (!ok) return;
+    takeSnapshot("Before restore", true);
+    // Restoring content does not restore a past sign-off.
+    setProgramme({ ...snapshot.programme, review: programme.review });
+    setItems(snapshot.items);
+    setPreviewSnapshotId(null);
+  }
+
+  function deleteSnapshot(id: string) {
+    setSnapshots((prev) => prev.filter((sn) => sn.id !== id));
+  }
+
   function updateItem(id: string, patch: Partial<MapItem>) {
-    setItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...patch } : it)));
+    // Typing in a text or number field is coalesced into one undo step per field.
+    const keys = Object.keys(patch);
+    const coalesce = keys.every((k) => TYPED_ITEM_FIELDS.includes(k)) ? `${id}:${keys.join(",")}` : undefined;
+    editItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...patch } : it)), coalesce);
+  }
+
+  function updateItemGovernance(id: string, field: keyof ItemGovernance, value: string) {
+    editItems(
+      (prev) =>
+        prev.map((it) => {
+          if (it.id !== id) return it;
+          const next = { ...it };
+          delete next.governance;
+          return { ...next, ...withGovernance(normalizeItemGovernance({ ...it.governance, [field]: value })) };
+        }),
+      `${id}:governance.${field}`
+    );
+  }
+
+  /** Set a domain's depth, or clear the tag when the current depth is chosen again. */
+  function toggleDomain(id: string, key: DomainKey, depth: DomainDepth) {
+    editItems((prev) =>
+      prev.map((it) => (it.id !== id ? it : withDomainDepth(it, key, it.domains[key] !== depth ? depth : null)))
+    );
+  }
+
+  /** Step a domain to its next depth, clearing it (and its indicators) after Assessed. */
+  function cycleDomainDepth(id: string, key: DomainKey) {
+    // Worked out from `prev` so quick repeated clicks each advance one step.
+    editItems((prev) =>
+      prev.map((it) => (it.id !== id ? it : withDomainDepth(it, key, nextDepth(it.domains[key]))))
+    );
   }
 
-  function toggleDomain(id: string, key: DomainKey) {
-    setItems((prev) =>
-      prev.map((it) =>
-        it.id === id ? { ...it, domains: { ...it.domains, [key]: !it.domains[key] } } : it
-      )
+  /** Tagging an indicator on an untagged domain tags the domain as Introduced. */
+  function toggleIndicator(id: string, key: DomainKey, indicatorKey: string) {
+    editItems((prev) =>
+      prev.map((it) => {
+        if (it.id !== id) return it;
+        const current = it.indicators?.[key] ?? [];
+        const next = current.includes(indicatorKey)
+          ? current.filter((k) => k !== indicatorKey)
+          : [...current, indicatorKey];
+        return {
+          ...it,
+          domains: { ...it.domains, [key]: it.domains[key] ?? "Introduced" },
+          indicators: { ...it.indicators, [key]: next },
+        };
+      })
     );
   }
 
-  function addItem(type: MapItemType) {
-    setItems((prev) => [...prev, newItem(type)]);
+  function addItem(type: MapItemType, parentId?: string) {
+    editItems((prev) => [...prev, newItem(type, parentId)]);
   }
 
   function removeItem(id: string) {
-    setItems((prev) => prev.filter((it) => it.id !== id));
+    // Children of a removed module become unassigned rather than being deleted.
+    editItems((prev) => reconcileParents(prev.filter((it) => it.id !== id)));
+  }
+
+  function moveItem(id: string, parentId: string) {
+    editItems((prev) =>
+      reconcileParents(
+        prev.map((it) => (it.id === id ? { ...it, parentId: parentId || undefined } : it))
+      )
+    );
   }
 
   function clearAll() {
+    if (blockIfReadOnly()) return;
     const ok = window.confirm(
       "Clear this mapping?\n\nThis will remove programme details and all items from this browser. You can export first if you want a backup."
     );
     if (!ok) return;
+    takeSnapshot("Before clear", true);
     setProgramme(defaultProgrammeDetails());
     setItems([newItem("Module")]);
   }
@@ -455,12 +5533,51 @@ export default function App() {
   function exportJSON() {
     const payload: ExportPayload = {
       tool: TOOL_NAME,
+      schemaVersion: EXPORT_SCHEMA_VERSION,
       exportedAt: new Date().toISOString(),
+      framework: frameworkReference(programme.framework),
       programme,
       items,
+      governance: {
+        programme: {
+          aiInvolvement: programme.aiInvolvement,
+          assumptions: programme.assumptions,
+          risks: programme.risks,
+          rationale: programme.rationale,
+          reviewNotes: programme.reviewNotes,
+        },
+        register: buildGovernanceRegister(items, todayISODate()),
+      },
+      audit: programmeAudit,
       analytics: {
         totalItems: items.length,
         weightedCoverage,
+        scoringModel: programme.scoringModel,
+        moduleRollup,
+        exposureTotal,
+        alignmentFlags,
+        timeline,
+        gapFindings,
+        ...(targetComparison
+          ? {
+              targetComparison: {
+                percentMet: targetComparison.percentMet,
+                totalShortfall: targetComparison.totalShortfall,
+                rows: targetComparison.rows.map((r) => ({
+                  domain: r.domain.key,
+                  actual: r.actual,
+                  target: r.target,
+                  shortfall: r.shortfall,
+                })),
+              },
+            }
+          : {}),
+        indicatorCoverage: indicatorCoverage.map((row) => ({
+          domain: row.domain.key,
+          indicator: row.indicator.key,
+          coverage: row.coverage,
+          weightedCoverage: row.weightedCoverage,
+        })),
       },
     };
 
@@ -470,6 +5587,95 @@ export default function App() {
     downloadJSON(`${safeTitle}-${date}.json`, payload);
   }
 
+  function exportSimulation() {
+    const safeTitle =
+      safeSlug(programme.programmeTitle || "programme-mapping") || "programme-mapping";
+    const date = programme.mappingDate || todayISODate();
+    downloadJSON(
+      `${safeTitle}-${date}-simulation.json`,
+      buildSimulationExport(programme, items, scoreItem, new Date().toISOString())
+    );
+  }
+
+  function exportDashboard() {
+    const safeTitle =
+      safeSlug(programme.programmeTitle || "programme-mapping") || "programme-mapping";
+    const date = programme.mappingDate || todayISODate();
+    downloadJSON(
+      `${safeTitle}-${date}-dashboard.json`,
+      buildDashboardExport({
+        programme,
+        items,
+        coverage,
+        weightedCoverage,
+        exposureTotal,
+        gapFindings,
+        targetComparison,
+        traceability,
+        exportedAtISO: new Date().toISOString(),
+      })
+    );
+  }
+
+  async function copyShareLink() {
+    let encoded: string;
+    try {
+      encoded = await encodeSharePayload(buildSharePayload(programme, items));
+    } catch {
+      // e.g. browsers without CompressionStream.
+      const ok = window.confirm(
+        "This browser could not create a share link.\n\nDownload the mapping as a JSON file to share instead?"
+      );
+      if (ok) exportJSON();
+      return;
+    }
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${SHARE_FRAGMENT_PREFIX}${encoded}`;
+
+    if (url.length > SHARE_LINK_MAX_LENGTH) {
+      const ok = window.confirm(
+        `This mapping is too large for a share link (${url.length.toLocaleString()} characters; the limit is ${SHARE_LINK_MAX_LENGTH.toLocaleString()}).\n\nDownload it as a JSON file to share instead?`
+      );
+      if (ok) exportJSON();
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      window.alert(
+        "Share link copied.\n\nThe mapping is stored in the link itself, not on a server. Anyone with the link can open a read-only preview and import it."
+      );
+    } catch {
+      window.prompt("Copy this share link:", url);
+    }
+  }
+
+  function closeSharedPreview() {
+    setSharedPreview(null);
+    window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+  }
+
+  function importSharedPreview() {
+    if (!sharedPreview) return;
+    const name = window.prompt(
+      "Import the shared mapping into your workspace as:",
+      sharedPreview.programme.programmeTitle || "Shared mapping"
+    );
+    if (name === null) return;
+    const shared = sharedPreview.programme;
+    const entry = newWorkspaceEntry(
+      name.trim() || "Shared mapping",
+      { ...shared, review: importedReview(shared.review) },
+      sharedPreview.items
+    );
+    if (shared.review.status !== "Draft") {
+      const detail = `Imported from a share link as Draft; the link was marked ${shared.review.status}.`;
+      setAuditTrail((prev) => addAuditEntry(prev, newAuditEntry(entry.id, "Status", actor, detail)));
+    }
+    const synced = syncActiveEntry(workspace, programme, items);
+    openEntry({ ...synced, programmes: [...synced.programmes, entry] }, entry.id);
+    closeSharedPreview();
+  }
+
   function exportMarkdown() {
     const exportedAt = new Date().toISOString();
     const safeTitle =
@@ -484,15 +5690,41 @@ export default function App() {
       coverage,
       weightedCoverage,
       observations,
+      exposureTotal,
+      alignmentFlags,
+      timeline,
+      moduleRollup,
+      indicatorCoverage,
+      traceability,
+      domainTraceFlags,
+      gapFindings,
+      targetComparison,
+      auditTrail: programmeAudit,
     });
 
     downloadText(`${safeTitle}-${date}.md`, md);
   }
 
+  function exportCsv() {
+    const safeTitle =
+      safeSlug(programme.programmeTitle || "programme-mapping") || "programme-mapping";
+    const date = programme.mappingDate || todayISODate();
+    downloadCsv(
+      `${safeTitle}-${date}.csv`,
+      buildMatrixCsv({ programme, items, coverage, weightedCoverage, gapFindings })
+    );
+  }
+
   function triggerImport() {
+    if (blockIfReadOnly()) return;
     fileInputRef.current?.click();
   }
 
+  function openCsvImport() {
+    if (blockIfReadOnly()) return;
+    setShowCsvImport(true);
+  }
+
   async function handleImportFile(file: File) {
     const text = await file.text();
 
@@ -504,21 +5736,115 @@ export default function App() {
       return;
     }
 
-    const nextProgramme = normalizeProgramme(parsed?.programme);
-    const nextItems = normalizeItems(parsed?.items);
+    if (parsed?.schema === INTERCHANGE_SCHEMA) {
+      importInterchange(parsed, file.name);
+      return;
+    }
 
-    if (!Array.isArray(nextItems) || nextItems.length === 0) {
-      window.alert("This JSON file does not look like a programme mapping export.");
+    if (resolveFramework(parsed?.programme?.framework) === null) {
+      const ref = parsed?.framework ?? parsed?.programme?.framework;
+      window.alert(
+        `This mapping uses a capability framework that is not available here (${ref?.name ?? ref?.id ?? "unknown"}${
+          ref?.version ? ` v${ref.version}` : ""
+        }). Load that framework definition first, or export the mapping again with its framework embedded.`
+      );
       return;
     }
 
-    const ok = window.confirm(
-      "Import this mapping?\n\nThis will replace your current mapping in this browser. You may want to export first as a backup."
-    );
-    if (!ok) return;
+    const validation = validateExportPayload(parsed);
+    if ("error" in validation) {
+      window.alert(`This JSON file does not look like a programme mapping export. ${validation.error}`);
+      return;
+    }
+    setShowCsvImport(false);
+    setPendingInterchange(null);
+    setPendingImport({ ...validation, fileName: file.name });
+  }
+
+  function applyPendingImport(next: { programme: ProgrammeDetails; items: MapItem[] }, merged: boolean) {
+    takeSnapshot(merged ? "Before merge" : "Before import", true);
+    // A merge keeps this mapping's status; a replacing import starts again as a draft.
+    const status = next.programme.review.status;
+    setProgramme(merged ? next.programme : { ...next.programme, review: importedReview(next.programme.review) });
+    setItems(next.items);
+    setPendingImport(null);
+    if (!merged && status !== "Draft") {
+      appendAudit("Status", `Imported as Draft; the file was marked ${status}. Sign-off must be repeated here.`);
+    } else if (!merged && review.status !== "Draft") {
+      appendAudit("Status", `${review.status} → Draft (replaced by an imported file).`);
+    }
+  }
+
+  /** Read a shared-format file from another CloudPedagogy tool and show what was dropped or coerced. */
+  function importInterchange(raw: unknown, fileName: string) {
+    const issues: ImportIssue[] = [];
+    const envelope = readInterchangeEnvelope(raw, issues);
+    if ("error" in envelope) {
+      window.alert(`This file cannot be imported. ${envelope.error}`);
+      return;
+    }
+    const read = { fileName, source: envelope.source, version: envelope.version, issues };
+
+    let pending: PendingInterchange;
+    if (envelope.kind === "curriculum-structure") {
+      const next = importCurriculumStructure(envelope.payload, programme.framework, issues);
+      pending = { ...read, kind: envelope.kind, ...next };
+    } else if (envelope.kind === "simulation-structure") {
+      const next = importSimulationStructure(envelope.payload, programme.framework, issues);
+      if ("error" in next) {
+        window.alert(`This simulation file cannot be imported. ${next.error}`);
+        return;
+      }
+      pending = { ...read, kind: envelope.kind, ...next };
+    } else {
+      const baseline = importCapabilityBaseline(envelope.payload, envelope.source, programme.framework, issues);
+      if ("error" in baseline) {
+        window.alert(`This baseline cannot be imported. ${baseline.error}`);
+        return;
+      }
+      pending = { ...read, kind: "capability-baseline", baseline };
+    }
+    setShowCsvImport(false);
+    setPendingImport(null);
+    setPendingInterchange(pending);
+  }
+
+  function applyPendingInterchange() {
+    const next = pendingInterchange;
+    if (!next) return;
+    setPendingInterchange(null);
+    if (next.kind === "capability-baseline") {
+      updateProgramme({ baseline: next.baseline });
+      return;
+    }
 
-    setProgramme(nextProgramme);
-    setItems(nextItems);
+    takeSnapshot("Before import", true);
+    if (next.kind === "curriculum-structure") {
+      // Scoring, gap rules, target and baseline are this programme's settings and are kept.
+      const { programmeTitle, awardLevel, department, institution, version, stages, outcomes } = next.programme;
+      setProgramme((prev) => ({ ...prev, programmeTitle, awardLevel, department, institution, version, stages, outcomes }));
+      setItems(next.items);
+      return;
+    }
+    // Outcomes are kept, so those tied to a module the file does not have become programme-level.
+    const { stages, scoringModel } = next.programme;
+    const reconciled = reconcileOutcomes({ ...programme, stages, scoringModel }, next.items);
+    setProgramme(reconciled.programme);
+    setItems(reconciled.items);
+  }
+
+  function importCsvItems(next: MapItem[], mode: "append" | "replace") {
+    if (mode === "replace") {
+      const ok = window.confirm(
+        `Replace all current items with ${next.length} imported item${next.length === 1 ? "" : "s"}?\n\nYour current mapping will be saved as an automatic snapshot first.`
+      );
+      if (!ok) return;
+      takeSnapshot("Before CSV import", true);
+      setItems(next);
+    } else {
+      editItems((prev) => [...prev, ...next]);
+    }
+    setShowCsvImport(false);
   }
 
   function onImportChange(e: React.ChangeEvent<HTMLInputElement>) {
@@ -529,6 +5855,340 @@ export default function App() {
     void handleImportFile(file);
   }
 
+  const activeSnapshots = snapshots
+    .filter((sn) => sn.programmeId === workspace.activeId)
+    .sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+
+  const itemNumber = new Map(items.map((it, i) => [it.id, i + 1]));
+  const itemsById = new Map(items.map((it) => [it.id, it]));
+  const today = todayISODate();
+  const governanceRegister = buildGovernanceRegister(items, today);
+  const rollupById = new Map(moduleRollup.map((r) => [r.moduleId, r]));
+
+  const maxCellScore = Math.max(
+    1,
+    ...items.flatMap((it) => domains.map((d) => scoreItem(it, d.key)))
+  );
+
+  const chartFileSlug = safeSlug(programme.programmeTitle || "programme-mapping") || "programme-mapping";
+  const topPair = domains
+    .flatMap((a, i) => domains.slice(i + 1).map((b) => ({ a, b, count: cooccurrence[a.key][b.key] })))
+    .reduce<{ a: Domain; b: Domain; count: number } | null>((best, p) => (p.count > (best?.count ?? 0) ? p : best), null);
+
+  function heatCellOpacity(item: MapItem, key: DomainKey): number {
+    const depth = item.domains[key];
+    if (!depth) return 0;
+    if (programme.scoringModel === "simple") return DEPTH_MAP[depth] / DEPTH_LEVELS.length;
+    return 0.2 + 0.8 * (scoreItem(item, key) / maxCellScore);
+  }
+
+  /** Programme-level outcomes plus those of the item's own module. */
+  function assessableOutcomes(item: MapItem): LearningOutcome[] {
+    return programme.outcomes.filter(
+      (o) => !o.moduleId || o.moduleId === item.parentId || !itemsById.has(o.moduleId)
+    );
+  }
+
+  function renderItemCard(item: MapItem) {
+    const rollup = rollupById.get(item.id);
+    const rollupProfile = rollup
+      ? domains.filter((d) => rollup.weightedCoverage[d.key] > 0)
+          .map((d) => `${d.short} ${rollup.weightedCoverage[d.key]}`)
+          .join(" · ")
+      : "";
+    const itemComments = review.comments.filter((c) => c.itemId === item.id);
+
+    return (
+      <div key={item.id} className="card nested stack">
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            gap: 10,
+            alignItems: "center",
+          }}
+        >
+          <div className="badge">
+            <strong>{itemNumber.get(item.id)}.</strong> <span>{item.type}</span>
+          </div>
+          <button className="secondary" onClick={() => removeItem(item.id)} disabled={items.length === 1}>
+            Remove
+          </button>
+        </div>
+
+        {item.type === "Module" ? (
+          <div className="stack-tight">
+            <p className="small muted" style={{ margin: 0 }}>
+              Module capability profile (module + {rollup?.childCount ?? 0} nested item
+              {rollup?.childCount === 1 ? "" : "s"}): {rollupProfile || "no domain tags yet"}
+            </p>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <button className="secondary" onClick={() => addItem("Activity", item.id)}>
+                + Activity in this module
+              </button>
+              <button className="secondary" onClick={() => addItem("Assessment", item.id)}>
+                + Assessment in this module
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="stack-tight">
+            <label>Parent module</label>
+            <select value={item.parentId ?? ""} onChange={(e) => moveItem(item.id, e.target.value)}>
+              <option value="">Unassigned</option>
+              {hierarchy.modules.map(({ module }) => (
+                <option key={module.id} value={module.id}>
+                  {itemNumber.get(module.id)}. {module.name || "Untitled module"}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {programme.stages.length > 0 && (
+          <div className="stack-tight">
+            <label>Stage</label>
+            <select
+              value={item.stageId ?? ""}
+              onChange={(e) => updateItem(item.id, { stageId: e.target.value || undefined })}
+            >
+              <option value="">{item.parentId ? "Same as parent module" : "Not staged"}</option>
+              {programme.stages.map((st) => (
+                <option key={st.id} value={st.id}>
+                  {st.label || st.kind}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="row">
+          <div className="stack">
+            <label>Name</label>
+            <input
+              type="text"
+              value={item.name}
+              placeholder={`e.g. ${
+                item.type === "Module"
+                  ? "Foundations of..."
+                  : item.type === "Activity"
+                  ? "Workshop: ..."
+                  : "Portfolio / Exam"
+              }`}
+              onChange={(e) => updateItem(item.id, { name: e.target.value })}
+            />
+          </div>
+          <div className="stack">
+            <label>Notes (optional)</label>
+              <textarea
+                value={item.notes}
+                placeholder="e.g. what AI use is expected, what judgement is required, what risks or governance concerns exist…"
+                onChange={(e) => updateItem(item.id, { notes: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <details>
+            <summary className="small" style={{ cursor: "pointer", fontWeight: 600 }}>
+              Governance notes (optional)
+              {item.governance?.riskOwner ? ` — owner: ${item.governance.riskOwner}` : ""}
+              {isReviewOverdue(item.governance, today) && (
+                <span className="tag" style={{ marginLeft: 8, color: "#B91C1C" }}>Review overdue</span>
+              )}
+            </summary>
+            <div className="stack" style={{ marginTop: 8 }}>
+              <div className="row">
+                <div className="stack">
+                  <label>Risk owner</label>
+                  <input
+                    type="text"
+                    value={item.governance?.riskOwner ?? ""}
+                    placeholder="Who is accountable for these risks?"
+                    onChange={(e) => updateItemGovernance(item.id, "riskOwner", e.target.value)}
+                  />
+                </div>
+                <div className="stack">
+                  <label>Review due</label>
+                  <input
+                    type="date"
+                    value={item.governance?.reviewDue ?? ""}
+                    onChange={(e) => updateItemGovernance(item.id, "reviewDue", e.target.value)}
+                  />
+                </div>
+              </div>
+              {(Object.keys(GOVERNANCE_NOTE_LABELS) as GovernanceNoteField[]).map((f) => (
+                <div key={f} className="stack-tight">
+                  <label>{GOVERNANCE_NOTE_LABELS[f]}</label>
+                  <textarea
+                    value={item.governance?.[f] ?? ""}
+                    onChange={(e) => updateItemGovernance(item.id, f, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </details>
+
+          <details>
+            <summary className="small" style={{ cursor: "pointer", fontWeight: 600 }}>
+              Comments ({itemComments.length})
+            </summary>
+            <div className="stack-tight" style={{ marginTop: 8 }}>
+              {itemComments.map((c) => (
+                <div key={c.id} className="card nested stack-tight">
+                  <div className="small muted">
+                    {c.author} · {new Date(c.at).toLocaleString()}
+                  </div>
+                  <div className="small" style={{ whiteSpace: "pre-wrap" }}>{c.text}</div>
+                </div>
+              ))}
+              <textarea
+                value={commentDrafts[item.id] ?? ""}
+                placeholder="Leave a review comment on this item…"
+                onChange={(e) => setCommentDrafts((prev) => ({ ...prev, [item.id]: e.target.value }))}
+              />
+              <div>
+                <button
+                  onClick={() => addComment(item)}
+                  className="secondary"
+                  disabled={!(commentDrafts[item.id] ?? "").trim()}
+                >
+                  Add comment
+                </button>
+              </div>
+            </div>
+          </details>
+
+          <div className="stack-tight">
+            <label>Domain depth</label>
+            <div className="stack-tight">
+              {domains.map((d) => {
+                const depth = item.domains[d.key];
+                const tagged = item.indicators?.[d.key] ?? [];
+                return (
+                  <div key={d.key} className="stack-tight">
+                    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                      <span className="small" style={{ width: 110, fontWeight: 600 }} title={d.name}>
+                        {d.short}
+                      </span>
+                      {DEPTH_LEVELS.map((level) => (
+                        <button
+                          key={level}
+                          onClick={() => toggleDomain(item.id, d.key, level)}
+                          className={`tag ${depth === level ? "active" : ""}`}
+                          aria-pressed={depth === level}
+                          title={`${d.name}: ${level}`}
+                        >
+                          {level}
+                        </button>
+                      ))}
+                    </div>
+                    {d.indicators?.length ? (
+                      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginLeft: 118 }}>
+                        {d.indicators.map((ind) => {
+                          const on = tagged.includes(ind.key);
+                          return (
+                            <button
+                              key={ind.key}
+                              onClick={() => toggleIndicator(item.id, d.key, ind.key)}
+                              className={`tag ${on ? "active" : ""}`}
+                              aria-pressed={on}
+                              style={{ fontSize: 11 }}
+                              title={`${d.name}: ${ind.name}`}
+                            >
+                              {ind.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="small muted">
+              Tag only <em>meaningful</em> engagement with a domain, not mere mention: Introduced, Developed, Applied or
+              Assessed. Choose the selected depth again to clear it. Indicators below a domain record which of its
+              dimensions the item addresses; the item then counts toward the domain in proportion to the indicators it
+              covers. Leave them unselected if the item addresses the domain as a whole. Use judgement.
+            </p>
+          </div>
+
+          <div className="stack-tight">
+            <label>AI exposure</label>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              {EXPOSURE_LEVELS.map((level) => (
+                <button
+                  key={level}
+                  className={`tag ${item.exposure === level ? "active" : ""}`}
+                  onClick={() => updateItem(item.id, { exposure: level })}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+            <p className="small muted">
+              Exposure records how far AI use is built into the item, from not involved to required or assessed.
+            </p>
+          </div>
+
+          {item.type === "Assessment" && (
+            <div className="stack-tight">
+              <label>Outcomes assessed</label>
+              {assessableOutcomes(item).length === 0 ? (
+                <p className="small muted" style={{ margin: 0 }}>
+                  No programme outcomes or outcomes for this module yet. Add them under Learning outcomes.
+                </p>
+              ) : (
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  {assessableOutcomes(item).map((o) => {
+                    const on = !!item.outcomeIds?.includes(o.id);
+                    return (
+                      <button
+                        key={o.id}
+                        className={`tag ${on ? "active" : ""}`}
+                        aria-pressed={on}
+                        title={o.text}
+                        onClick={() => toggleAssessedOutcome(item.id, o.id)}
+                      >
+                        {o.code.trim() || o.text.trim() || "Untitled outcome"}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="stack-tight" style={{ maxWidth: 240 }}>
+            <label>{ITEM_SIZE_LABELS[item.type]} (optional)</label>
+            <input
+              type="number"
+              min={0}
+              value={itemSizeValue(item) ?? ""}
+              onChange={(e) => updateItem(item.id, itemSizePatch(item.type, e.target.value))}
+            />
+          </div>
+        </div>
+    );
+  }
+
+  if (showReport) {
+    return (
+      <ProgrammeReport
+        programme={programme}
+        items={items}
+        weightedCoverage={weightedCoverage}
+        observations={observations}
+        gapFindings={gapFindings}
+        targetComparison={targetComparison}
+        timeline={timeline}
+        moduleRollup={moduleRollup}
+        cellOpacity={heatCellOpacity}
+        onClose={() => setShowReport(false)}
+      />
+    );
+  }
+
   return (
     <>
       <header className="tool-header">
@@ -542,10 +6202,53 @@ export default function App() {
 
       <div className="container">
         <div className="stack">
+        {sharedPreview && (
+          <SharedMappingPreview shared={sharedPreview} onImport={importSharedPreview} onClose={closeSharedPreview} />
+        )}
+
         {/* Header */}
         <div className="card stack">
           <p className="p secondary">{SUBTITLE}</p>
 
+          <div className="stack-tight">
+            <label>Programme</label>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+              <select
+                value={workspace.activeId}
+                style={{ maxWidth: 360 }}
+                onChange={(e) => switchProgramme(e.target.value)}
+              >
+                {workspace.programmes
+                  .filter((e) => showArchived || !e.archived || e.id === workspace.activeId)
+                  .map((e) => (
+                    <option key={e.id} value={e.id}>
+                      {entryDisplayName(e)}
+                      {e.archived ? " (archived)" : ""}
+                    </option>
+                  ))}
+              </select>
+              <button onClick={createProgramme} className="secondary">New</button>
+              <button onClick={duplicateProgramme} className="secondary">Duplicate</button>
+              <button onClick={renameProgramme} className="secondary">Rename</button>
+              {activeEntry(workspace).archived ? (
+                <button onClick={() => setArchived(workspace.activeId, false)} className="secondary">
+                  Unarchive
+                </button>
+              ) : (
+                <button onClick={() => setArchived(workspace.activeId, true)} className="secondary">
+                  Archive
+                </button>
+              )}
+              <button onClick={deleteProgramme} className="secondary">Delete</button>
+            </div>
+            {workspace.programmes.some((e) => e.archived) && (
+              <label className="small muted" style={{ display: "flex", gap: 6, alignItems: "center", fontWeight: 500 }}>
+                <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+                Show archived programmes
+              </label>
+            )}
+          </div>
+
           <div className="badge">
             <span>Saved locally</span>
             <span className="muted">•</span>
@@ -554,6 +6257,58 @@ export default function App() {
             <span>{totalDomainTags} domain tag{totalDomainTags === 1 ? "" : "s"}</span>
           </div>
 
+          <div className="stack-tight" style={{ marginTop: 10 }}>
+            <label>Review status</label>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+              <span className="tag" style={{ ...STATUS_STYLES[review.status], fontWeight: 600 }}>{review.status}</span>
+              {review.statusChangedBy && review.statusChangedAt && (
+                <span className="small muted">
+                  by {review.statusChangedBy}, {new Date(review.statusChangedAt).toLocaleString()}
+                </span>
+              )}
+              {STATUS_TRANSITIONS[review.status].map((next) => (
+                <button
+                  key={next}
+                  onClick={() => changeStatus(next)}
+                  className={next === "Approved" ? "primary" : "secondary"}
+                >
+                  {statusActionLabel(review.status, next)}
+                </button>
+              ))}
+            </div>
+            <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+              <span className="small muted">Reviewers:</span>
+              {review.reviewers.length === 0 && <span className="small muted">none yet</span>}
+              {review.reviewers.map((r) => (
+                <span key={r.id} className="tag">
+                  {r.name}
+                  {r.role ? ` (${r.role})` : ""}
+                  {!readOnly && (
+                    <button
+                      onClick={() => removeReviewer(r)}
+                      className="secondary"
+                      style={{ marginLeft: 6, padding: "0 6px" }}
+                      title={`Remove ${r.name}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+              {!readOnly && (
+                <button onClick={addReviewer} className="secondary">
+                  Add reviewer
+                </button>
+              )}
+            </div>
+            {readOnly && (
+              <p className="small muted">
+                This mapping is approved and read-only. Reopen it as a draft to make changes; it will then need approving
+                again.
+              </p>
+            )}
+          </div>
+
           <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 10 }}>
             <button
               onClick={exportMarkdown}
@@ -571,10 +6326,90 @@ export default function App() {
             >
               Export JSON
             </button>
-            <button onClick={triggerImport} className="secondary">Import JSON</button>
+            <button
+              onClick={exportCsv}
+              className="secondary"
+              disabled={!hasAnyTag}
+              title={!hasAnyTag ? "Add at least one domain tag to enable export." : undefined}
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={exportSimulation}
+              className="secondary"
+              disabled={!hasAnyTag}
+              title={
+                !hasAnyTag
+                  ? "Add at least one domain tag to enable export."
+                  : "Item structure, weights and domain tags for the Curriculum Simulation Tool."
+              }
+            >
+              Export for simulation
+            </button>
+            <button
+              onClick={exportDashboard}
+              className="secondary"
+              disabled={!hasAnyTag}
+              title={
+                !hasAnyTag
+                  ? "Add at least one domain tag to enable export."
+                  : "Coverage, gaps and governance notes for the Governance Dashboard (no item notes)."
+              }
+            >
+              Export for dashboard
+            </button>
+            <button
+              onClick={() => setShowReport(true)}
+              className="secondary"
+              disabled={!hasAnyTag}
+              title={
+                !hasAnyTag
+                  ? "Add at least one domain tag to enable export."
+                  : "A formatted report with charts, to print, save as PDF or save as a standalone HTML file."
+              }
+            >
+              Printable report
+            </button>
+            <button
+              onClick={triggerImport}
+              className="secondary"
+              title="A mapping or simulation file exported from this tool, or a Mapping Engine / Capability Assessment Tool interchange file."
+            >
+              Import JSON
+            </button>
+            <button onClick={openCsvImport} className="secondary">Import CSV</button>
+            <button
+              onClick={() => void copyShareLink()}
+              className="secondary"
+              title="Copy a link that carries this mapping in the URL. Nothing is uploaded."
+            >
+              Copy share link
+            </button>
             <button onClick={clearAll} className="secondary">Clear</button>
           </div>
 
+          {pendingImport && (
+            <ImportReviewPanel
+              review={pendingImport}
+              current={currentMapping}
+              onImport={applyPendingImport}
+              onClose={() => setPendingImport(null)}
+            />
+          )}
+
+          {pendingInterchange && (
+            <InterchangeImportPanel
+              pending={pendingInterchange}
+              hasBaseline={!!programme.baseline}
+              onImport={applyPendingInterchange}
+              onClose={() => setPendingInterchange(null)}
+            />
+          )}
+
+          {showCsvImport && (
+            <CsvImportPanel domains={domains} onImport={importCsvItems} onClose={() => setShowCsvImport(false)} />
+          )}
+
           {!hasAnyTag && (
             <p className="small" style={{ marginTop: 8 }}>
               Add at least one domain tag to enable export.
@@ -591,7 +6426,7 @@ export default function App() {
 
           <p className="small muted" style={{ marginTop: 10 }}>
             Exports download to your computer. Your in-progress work is saved in your browser automatically. Import a
-            file previously exported from this tool.
+            file previously exported from this tool, or a module list saved from a spreadsheet as CSV.
           </p>
         </div>
 
@@ -616,70 +6451,151 @@ export default function App() {
               This information is included in exports.
             </p>
 
-            <div className="row">
-              <div className="stack">
-                <label>Programme title</label>
-                <input
-                  type="text"
-                  value={programme.programmeTitle}
-                  placeholder="e.g. MSc Public Health"
-                  onChange={(e) => updateProgramme({ programmeTitle: e.target.value })}
-                />
-              </div>
+            <fieldset disabled={readOnly} className="stack" style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+              <div className="row">
+                <div className="stack">
+                  <label>Programme title</label>
+                  <input
+                    type="text"
+                    value={programme.programmeTitle}
+                    placeholder="e.g. MSc Public Health"
+                    onChange={(e) => updateProgramme({ programmeTitle: e.target.value })}
+                  />
+                </div>
 
-              <div className="stack">
-                <label>Award / level</label>
-                <input
-                  type="text"
-                  value={programme.awardLevel}
-                  placeholder="e.g. MSc / PGCert / UG Year 2"
-                  onChange={(e) => updateProgramme({ awardLevel: e.target.value })}
-                />
+                <div className="stack">
+                  <label>Award / level</label>
+                  <input
+                    type="text"
+                    value={programme.awardLevel}
+                    placeholder="e.g. MSc / PGCert / UG Year 2"
+                    onChange={(e) => updateProgramme({ awardLevel: e.target.value })}
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="row">
-              <div className="stack">
-                <label>Department / faculty (optional)</label>
-                <input
-                  type="text"
-                  value={programme.department}
-                  placeholder="e.g. Faculty of Public Health"
-                  onChange={(e) => updateProgramme({ department: e.target.value })}
-                />
+              <div className="row">
+                <div className="stack">
+                  <label>Department / faculty (optional)</label>
+                  <input
+                    type="text"
+                    value={programme.department}
+                    placeholder="e.g. Faculty of Public Health"
+                    onChange={(e) => updateProgramme({ department: e.target.value })}
+                  />
+                </div>
+
+                <div className="stack">
+                  <label>Institution (optional)</label>
+                  <input
+                    type="text"
+                    value={programme.institution}
+                    placeholder="e.g. LSHTM"
+                    onChange={(e) => updateProgramme({ institution: e.target.value })}
+                  />
+                </div>
               </div>
 
-              <div className="stack">
-                <label>Institution (optional)</label>
-                <input
-                  type="text"
-                  value={programme.institution}
-                  placeholder="e.g. LSHTM"
-                  onChange={(e) => updateProgramme({ institution: e.target.value })}
-                />
+              <div className="row">
+                <div className="stack">
+                  <label>Mapping date</label>
+                  <input
+                    type="date"
+                    value={programme.mappingDate}
+                    onChange={(e) => updateProgramme({ mappingDate: e.target.value })}
+                  />
+                </div>
+
+                <div className="stack">
+                  <label>Version / notes</label>
+                  <input
+                    type="text"
+                    value={programme.version}
+                    placeholder="e.g. v0.1 draft / pre-approval / post-review"
+                    onChange={(e) => updateProgramme({ version: e.target.value })}
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="row">
-              <div className="stack">
-                <label>Mapping date</label>
-                <input
-                  type="date"
-                  value={programme.mappingDate}
-                  onChange={(e) => updateProgramme({ mappingDate: e.target.value })}
-                />
+              <div className="stack-tight" style={{ marginTop: 16 }}>
+                <label>Student journey stages (optional)</label>
+                <p className="small muted" style={{ margin: 0 }}>
+                  List the years, terms or blocks of the programme in order, then assign items to a stage to see when each
+                  domain is introduced and revisited.
+                </p>
+
+                {programme.stages.map((st, idx) => (
+                  <div key={st.id} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <select
+                      value={st.kind}
+                      style={{ width: 110 }}
+                      onChange={(e) => updateStage(st.id, { kind: coerceStageKind(e.target.value) })}
+                    >
+                      <option value="Year">Year</option>
+                      <option value="Term">Term</option>
+                      <option value="Block">Block</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={st.label}
+                      placeholder="e.g. Year 1 / Autumn term"
+                      onChange={(e) => updateStage(st.id, { label: e.target.value })}
+                    />
+                    <button className="secondary" onClick={() => moveStage(st.id, -1)} disabled={idx === 0}>
+                      ↑
+                    </button>
+                    <button
+                      className="secondary"
+                      onClick={() => moveStage(st.id, 1)}
+                      disabled={idx === programme.stages.length - 1}
+                    >
+                      ↓
+                    </button>
+                    <button className="secondary" onClick={() => removeStage(st.id)}>
+                      Remove
+                    </button>
+                  </div>
+                ))}
+
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <button className="secondary" onClick={() => addStage("Year")}>+ Year</button>
+                  <button className="secondary" onClick={() => addStage("Term")}>+ Term</button>
+                  <button className="secondary" onClick={() => addStage("Block")}>+ Block</button>
+                </div>
               </div>
 
-              <div className="stack">
-                <label>Version / notes</label>
+              <div className="stack-tight" style={{ marginTop: 16 }}>
+                <label>Capability framework</label>
+                <p className="small muted" style={{ margin: 0 }}>
+                  <strong>{programme.framework.name}</strong> ({programme.framework.id}, v{programme.framework.version}) —{" "}
+                  {domains.length} domain{domains.length === 1 ? "" : "s"}. Load a framework definition (JSON) to map against
+                  your own domains; the framework is saved with the programme and recorded in exports.
+                </p>
+
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <button className="secondary" onClick={() => frameworkInputRef.current?.click()}>
+                    Load framework (JSON)
+                  </button>
+                  {BUILT_IN_FRAMEWORKS.filter((f) => !sameFramework(f, programme.framework)).map((f) => (
+                    <button key={`${f.id}@${f.version}`} className="secondary" onClick={() => applyFramework(f)}>
+                      Use {f.name}
+                    </button>
+                  ))}
+                </div>
+
                 <input
-                  type="text"
-                  value={programme.version}
-                  placeholder="e.g. v0.1 draft / pre-approval / post-review"
-                  onChange={(e) => updateProgramme({ version: e.target.value })}
+                  ref={frameworkInputRef}
+                  type="file"
+                  accept="application/json"
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void loadFrameworkFile(file);
+                  }}
                 />
               </div>
-            </div>
+            </fieldset>
           </details>
         </div>
 
@@ -697,180 +6613,282 @@ export default function App() {
             Add modules, activities, and assessments, then tag each item against one or more domains. Use tags as lenses
             for discussion—avoid “perfect mapping”.
           </p>
-
-          <div className="row">
-            <div className="stack">
-              <div className="badge">Add items</div>
-              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-                <button className="primary" onClick={() => addItem("Module")}>
-                  + Module
-                </button>
-                <button className="secondary" onClick={() => addItem("Activity")}>+ Activity</button>
-                <button className="secondary" onClick={() => addItem("Assessment")}>+ Assessment</button>
+
+          <fieldset disabled={readOnly} className="stack" style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+            <div className="row">
+              <div className="stack">
+                <div className="badge">Add items</div>
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <button className="primary" onClick={() => addItem("Module")}>
+                    + Module
+                  </button>
+                  <button className="secondary" onClick={() => addItem("Activity")}>+ Activity</button>
+                  <button className="secondary" onClick={() => addItem("Assessment")}>+ Assessment</button>
+                </div>
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <button className="secondary" onClick={undo} disabled={itemHistory.past.length === 0}>
+                    Undo
+                  </button>
+                  <button className="secondary" onClick={redo} disabled={itemHistory.future.length === 0}>
+                    Redo
+                  </button>
+                </div>
+                <p className="small muted">
+                  Tip: keep items granular enough to discuss (e.g. “Research Methods Seminar 2”, “Portfolio”, “Lab practical
+                  1”).
+                </p>
               </div>
-              <p className="small muted">
-                Tip: keep items granular enough to discuss (e.g. “Research Methods Seminar 2”, “Portfolio”, “Lab practical
-                1”).
-              </p>
-            </div>
 
-            <div className="stack">
-              <div className="badge">Domain lenses</div>
               <div className="stack">
-                {DOMAINS.map((d) => (
-                  <div key={d.key} className="small">
-                    <strong>{d.name}:</strong> {d.prompt}
-                  </div>
-                ))}
+                <div className="badge">Domain lenses</div>
+                <div className="stack">
+                  {domains.map((d) => (
+                    <div key={d.key} className="small">
+                      <strong>{d.name}:</strong> {d.prompt}
+                      {d.indicators?.length ? (
+                        <span className="muted"> ({d.indicators.map((ind) => ind.name).join("; ")})</span>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
 
-          <hr className="sep" />
+            <hr className="sep" />
 
-          <div className="stack">
-            {items.map((item, idx) => (
-              <div key={item.id} className="card nested stack">
-                <div
-                  style={{
-                    display: "flex",
-                    justifyContent: "space-between",
-                    gap: 10,
-                    alignItems: "center",
-                  }}
-                >
-                  <div className="badge">
-                    <strong>{idx + 1}.</strong> <span>{item.type}</span>
-                  </div>
-                  <button className="secondary" onClick={() => removeItem(item.id)} disabled={items.length === 1}>
-                    Remove
-                  </button>
+            <div className="stack">
+              {hierarchy.modules.map(({ module, children }) => (
+                <div key={module.id} className="stack">
+                  {renderItemCard(module)}
+                  {children.length > 0 && <div className="stack tree-children">{children.map(renderItemCard)}</div>}
+                </div>
+              ))}
+
+              {hierarchy.unassigned.length > 0 && (
+                <div className="stack">
+                  <div className="badge">Unassigned activities and assessments</div>
+                  <div className="stack tree-children">{hierarchy.unassigned.map(renderItemCard)}</div>
                 </div>
+              )}
+            </div>
+          </fieldset>
+        </div>
+
+        {/* Learning outcomes */}
+        <div className="card stack">
+          <h2 className="h2">Learning outcomes & traceability</h2>
+          <p className="p muted">
+            Record programme and module learning outcomes, link each to the domains it develops, then mark which outcomes
+            each assessment assesses. The traceability view shows where every outcome is taught and assessed.
+          </p>
 
-                <div className="row">
-                  <div className="stack">
-                    <label>Name</label>
+          <fieldset disabled={readOnly} className="stack" style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+            <div className="stack">
+              {programme.outcomes.length === 0 && <p className="small muted">No learning outcomes yet.</p>}
+              {programme.outcomes.map((o) => (
+                <div key={o.id} className="card nested stack-tight">
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
                     <input
                       type="text"
-                      value={item.name}
-                      placeholder={`e.g. ${
-                        item.type === "Module"
-                          ? "Foundations of..."
-                          : item.type === "Activity"
-                          ? "Workshop: ..."
-                          : "Portfolio / Exam"
-                      }`}
-                      onChange={(e) => updateItem(item.id, { name: e.target.value })}
+                      value={o.code}
+                      placeholder="e.g. PLO1"
+                      style={{ width: 110 }}
+                      onChange={(e) => updateOutcome(o.id, { code: e.target.value })}
                     />
+                    <select
+                      value={o.moduleId && itemsById.has(o.moduleId) ? o.moduleId : ""}
+                      style={{ width: 240 }}
+                      onChange={(e) => setOutcomeModule(o.id, e.target.value)}
+                    >
+                      <option value="">Programme outcome</option>
+                      {hierarchy.modules.map(({ module }) => (
+                        <option key={module.id} value={module.id}>
+                          Module: {itemNumber.get(module.id)}. {module.name || "Untitled module"}
+                        </option>
+                      ))}
+                    </select>
+                    <button className="secondary" onClick={() => removeOutcome(o.id)}>
+                      Remove
+                    </button>
                   </div>
-                  <div className="stack">
-                    <label>Notes (optional)</label>
-                      <textarea
-                        value={item.notes}
-                        placeholder="e.g. what AI use is expected, what judgement is required, what risks or governance concerns exist…"
-                        onChange={(e) => updateItem(item.id, { notes: e.target.value })}
-                      />
-                    </div>
+                  <textarea
+                    value={o.text}
+                    placeholder="e.g. Critically evaluate AI-generated evidence in public health decision-making"
+                    onChange={(e) => updateOutcome(o.id, { text: e.target.value })}
+                  />
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {domains.map((d) => (
+                      <button
+                        key={d.key}
+                        className={`tag ${o.domains.includes(d.key) ? "active" : ""}`}
+                        aria-pressed={o.domains.includes(d.key)}
+                        title={d.name}
+                        onClick={() => toggleOutcomeDomain(o.id, d.key)}
+                      >
+                        {d.short}
+                      </button>
+                    ))}
                   </div>
+                </div>
+              ))}
+              <div>
+                <button className="secondary" onClick={() => addOutcome()}>
+                  + Learning outcome
+                </button>
+              </div>
+            </div>
 
-                  <div className="row">
-                    <div className="stack-tight">
-                      <label>Embedding Intensity</label>
-                      <div style={{ display: "flex", gap: 8 }}>
-                        {(["Low", "Medium", "High"] as ItemWeight[]).map((w) => (
-                          <button
-                            key={w}
-                            className={`tag ${item.weight === w ? "active" : ""}`}
-                            onClick={() => updateItem(item.id, { weight: w })}
-                          >
-                            {w}
-                          </button>
-                        ))}
-                      </div>
-                      <p className="small muted">
-                        Intensity reflects how deeply the capability is embedded (e.g. mention vs evaluation).
-                      </p>
-                    </div>
-
-                    <div className="stack-tight">
-                      <label>Tag domains</label>
-                      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                      {DOMAINS.map((d) => {
-                        const active = item.domains[d.key];
+            {traceability.length > 0 && (
+              <div className="stack-tight" style={{ marginTop: 16, overflowX: "auto" }}>
+                <div className="badge">Traceability</div>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                  <thead>
+                    <tr>
+                      {["Outcome", "Domain", "Taught by", "Assessed by", "Gap"].map((h) => (
+                        <th key={h} style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {traceability.flatMap((t) => {
+                      const names = (list: MapItem[]) =>
+                        list.map((it) => `${itemNumber.get(it.id)}. ${it.name || "Untitled"}`).join(", ") || "—";
+                      const rows = t.links.length
+                        ? t.links
+                        : [{ domain: null, taughtBy: [], assessedBy: t.assessedBy, gap: undefined }];
+                      return rows.map((link, idx) => {
+                        const gap = link.gap ?? t.gap;
                         return (
-                          <button
-                            key={d.key}
-                            onClick={() => toggleDomain(item.id, d.key)}
-                            className={`tag ${active ? "active" : ""}`}
-                            aria-pressed={active}
-                            title={d.name}
-                          >
-                            {d.short}
-                          </button>
+                          <tr key={`${t.outcome.id}-${link.domain?.key ?? "none"}`} style={{ borderTop: "1px solid #E5E7EB" }}>
+                            <td className="small" style={{ padding: 8, fontWeight: 600 }}>
+                              {idx === 0 ? outcomeLabel(t.outcome) : ""}
+                            </td>
+                            <td className="small" style={{ padding: 8 }}>
+                              {link.domain ? link.domain.name : <span className="muted">No domains linked</span>}
+                            </td>
+                            <td className="small" style={{ padding: 8 }}>{names(link.taughtBy)}</td>
+                            <td className="small" style={{ padding: 8 }}>{names(link.assessedBy)}</td>
+                            <td className="small" style={{ padding: 8 }}>
+                              {gap && (
+                                <span className="tag" style={{ background: "#FEF3C7", color: "#92400E", borderColor: "#FEF3C7", fontSize: 10 }}>
+                                  {gap}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
                         );
-                      })}
-                    </div>
-                    <p className="small muted">
-                      Tags represent <em>meaningful</em> engagement with a domain, not mere mention. Use judgement.
-                    </p>
-                  </div>
-                </div>
+                      });
+                    })}
+                  </tbody>
+                </table>
               </div>
-            ))}
-          </div>
+            )}
+
+            {traceGaps.length > 0 && (
+              <div className="stack-tight" style={{ marginTop: 16 }}>
+                <div className="badge">Teaching and assessment gaps</div>
+                {traceGaps.map((line) => (
+                  <p key={line} className="p muted" style={{ margin: 0 }}>
+                    {line}
+                  </p>
+                ))}
+              </div>
+            )}
+          </fieldset>
         </div>
 
         {/* Output */}
         <div className="card stack">
           <h2 className="h2">Output & Coverage Analysis</h2>
+
+          <div className="stack-tight">
+            <div className="badge">Scoring model</div>
+            <div style={{ display: "flex", gap: 8 }}>
+              {(Object.keys(SCORING_MODEL_LABELS) as ScoringModel[]).map((m) => (
+                <button
+                  key={m}
+                  className={`tag ${programme.scoringModel === m ? "active" : ""}`}
+                  aria-pressed={programme.scoringModel === m}
+                  onClick={() => updateProgramme({ scoringModel: m })}
+                >
+                  {SCORING_MODEL_LABELS[m]}
+                </button>
+              ))}
+            </div>
+            <p className="small muted">
+              Credit-weighted multiplies domain depth by module credits, an assessment’s share of its module’s credits, and
+              activity contact hours ({HOURS_PER_CREDIT} hours = 1 credit). Items without a value count as 1.
+            </p>
+          </div>
           
           <div className="stack">
             <h3 className="h2" style={{ fontSize: 15 }}>Domain Coverage Heatmap</h3>
-            <p className="small muted">Visual matrix of items vs capability domains. Cell intensity reflects embedding weight (Low to High).</p>
-            <div style={{ 
-              overflowX: "auto", 
-              border: "1px solid #E5E7EB", 
-              borderRadius: 6,
-              background: "#F9FAFB",
-              padding: 12
-            }}>
-              <table style={{ borderCollapse: "collapse", minWidth: 600, width: "100%" }}>
-                <thead>
-                  <tr>
-                    <th style={{ width: 180, textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>Item</th>
-                    {DOMAINS.map(d => (
-                      <th key={d.key} title={d.name} style={{ textAlign: "center", fontSize: 11, padding: 8, color: "#777", width: 60 }}>
-                        {d.short}
-                      </th>
-                    ))}
-                  </tr>
-                </thead>
-                <tbody>
-                  {items.map((item, idx) => (
-                    <tr key={item.id} style={{ borderTop: "1px solid #E5E7EB" }}>
-                      <td style={{ fontSize: 12, padding: 8, fontWeight: 500, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis", maxWidth: 180 }}>
-                        {idx + 1}. {item.name || "Untitled"}
-                      </td>
-                      {DOMAINS.map(d => {
-                        const active = item.domains[d.key];
-                        const w = WEIGHT_MAP[item.weight];
-                        const opacity = active ? (w === 3 ? 1 : w === 2 ? 0.6 : 0.3) : 0;
-                        return (
-                          <td key={d.key} style={{ padding: 4 }}>
-                            <div style={{ 
-                              height: 20, 
-                              background: active ? "#111111" : "transparent", 
-                              opacity, 
-                              borderRadius: 3,
-                              border: active ? "1px solid #111111" : "1px dashed #E5E7EB"
-                            }} />
-                          </td>
-                        );
-                      })}
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+            <p className="small muted">
+              Visual matrix of items vs capability domains. Cells show each domain’s depth (I Introduced · D Developed ·
+              Ap Applied · As Assessed), shaded by intensity
+              {programme.scoringModel === "credit-weighted" ? ", scaled by item size in credits" : ""}. Totals roll
+              up from indicators: an item that addresses only some of a domain’s indicators contributes that share of
+              its intensity. Click a column header to sort by intensity, and click a cell to step that domain through
+              the depth scale.
+            </p>
+            <InteractiveHeatmap
+              items={items}
+              domains={domains}
+              scoreItem={scoreItem}
+              cellOpacity={heatCellOpacity}
+              readOnly={readOnly}
+              onCycle={cycleDomainDepth}
+            />
+          </div>
+
+          {timeline.length > 0 && (
+            <div className="stack" style={{ marginTop: 24 }}>
+              <h3 className="h2" style={{ fontSize: 15 }}>Student Journey Timeline</h3>
+              <p className="small muted">
+                Cumulative intensity per domain across the programme stages. Flat lines show stages where a domain is not
+                revisited.
+              </p>
+              <TimelineChart timeline={timeline} domains={domains} />
+            </div>
+          )}
+
+          <div className="stack" style={{ marginTop: 24 }}>
+            <h3 className="h2" style={{ fontSize: 15 }}>Coverage profiles</h3>
+            <p className="small muted">
+              Balance across domains, where the intensity comes from, and which domains tend to be tagged together.
+              Download any chart as SVG or PNG for reports and slides.
+            </p>
+            <div className="row">
+              <ChartPanel
+                title="Domain profile"
+                description={
+                  targetComparison
+                    ? "Weighted intensity per domain (blue) against the target profile (dashed)."
+                    : "Weighted intensity per domain. A lopsided shape shows domains crowding others out."
+                }
+                filename={`${chartFileSlug}-domain-profile`}
+                unavailable={domains.length < 3 ? "A profile chart needs at least three domains." : undefined}
+              >
+                <RadarChart domains={domains} weightedCoverage={weightedCoverage} targetComparison={targetComparison} />
+              </ChartPanel>
+              <ChartPanel
+                title="Intensity by item type"
+                description="How much of each domain's intensity comes from modules, activities and assessments."
+                filename={`${chartFileSlug}-intensity-by-type`}
+              >
+                <TypeContributionChart domains={domains} byType={coverageByType} />
+              </ChartPanel>
+              <ChartPanel
+                title="Domain co-occurrence"
+                description={
+                  topPair
+                    ? `Items tagged with both domains; the diagonal counts items per domain. Most often together: ${topPair.a.name} and ${topPair.b.name} (${topPair.count} item${topPair.count === 1 ? "" : "s"}).`
+                    : "Items tagged with both domains; the diagonal counts items per domain."
+                }
+                filename={`${chartFileSlug}-domain-cooccurrence`}
+              >
+                <CooccurrenceMatrix domains={domains} counts={cooccurrence} />
+              </ChartPanel>
             </div>
           </div>
 
@@ -878,20 +6896,28 @@ export default function App() {
             <div className="stack">
               <div className="badge">Coverage intensity</div>
               <div className="stack">
-                {DOMAINS.map((d) => {
+                {domains.map((d) => {
                   const val = weightedCoverage[d.key];
-                  const totalWeighted = Object.values(weightedCoverage).reduce((a, b) => a + b, 0) || 1;
-                  const avgWeighted = totalWeighted / DOMAINS.length;
-                  const isPrimaryGap = val === 0;
-                  const isSecondaryGap = val > 0 && val < (avgWeighted * 0.5);
+                  // Findings are sorted by severity, so the first is the most severe.
+                  const domainFindings = gapFindings.filter((f) => f.domain === d.key);
+                  const findingTags = [...new Map(domainFindings.map((f) => [f.ruleId, f])).values()];
+                  const indicatorRows = indicatorCoverage.filter((row) => row.domain.key === d.key);
                   
                   return (
                     <div key={d.key} className="stack-tight">
                       <div style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
                         <span className="small" style={{ fontWeight: 600 }}>{d.name}</span>
                         <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                          {isPrimaryGap && <span className="tag" style={{ background: "#FEE2E2", color: "#B91C1C", borderColor: "#FEE2E2", fontSize: 10 }}>Primary Gap</span>}
-                          {isSecondaryGap && <span className="tag" style={{ background: "#FEF3C7", color: "#92400E", borderColor: "#FEF3C7", fontSize: 10 }}>Secondary Gap</span>}
+                          {findingTags.map((f) => (
+                            <span
+                              key={f.ruleId}
+                              className="tag"
+                              title={f.message}
+                              style={{ ...SEVERITY_STYLES[f.severity], borderColor: SEVERITY_STYLES[f.severity].background, fontSize: 10 }}
+                            >
+                              {f.name}
+                            </span>
+                          ))}
                           <span className="small muted">{val} intensity</span>
                         </div>
                       </div>
@@ -899,9 +6925,36 @@ export default function App() {
                         <div style={{ 
                           height: "100%", 
                           width: `${Math.min(100, (val / (Math.max(...Object.values(weightedCoverage)) || 1)) * 100)}%`, 
-                          background: isPrimaryGap ? "#E5E7EB" : isSecondaryGap ? "#F59E0B" : "#111111" 
+                          background: domainFindings.length ? SEVERITY_STYLES[domainFindings[0].severity].bar : "#111111"
                         }} />
                       </div>
+                      {indicatorRows.length > 0 && (
+                        <details>
+                          <summary className="small muted" style={{ cursor: "pointer" }}>
+                            Indicators ({indicatorRows.filter((row) => row.coverage > 0).length} of {indicatorRows.length}{" "}
+                            covered)
+                          </summary>
+                          <div className="stack-tight" style={{ marginTop: 6, paddingLeft: 12 }}>
+                            <span className="small muted">
+                              The domain’s intensity is the mean of its indicators’. Items tagged without choosing
+                              indicators count toward each of them.
+                            </span>
+                            {indicatorRows.map((row) => (
+                              <div
+                                key={row.indicator.key}
+                                style={{ display: "flex", justifyContent: "space-between", gap: 12 }}
+                              >
+                                <span className="small">{row.indicator.name}</span>
+                                <span className="small muted">
+                                  {row.coverage === 0
+                                    ? "Not covered"
+                                    : `${row.coverage} item${row.coverage === 1 ? "" : "s"} · ${row.weightedCoverage} intensity`}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
                     </div>
                   );
                 })}
@@ -918,8 +6971,365 @@ export default function App() {
                 ))}
               </div>
             </div>
+
+            <div className="stack">
+              <div className="badge">Alignment signals</div>
+              <div className="stack">
+                <p className="p muted">
+                  Cumulative AI exposure across the programme: <strong>{exposureTotal}</strong>.
+                </p>
+                {alignmentFlags.length === 0 ? (
+                  <p className="p muted">
+                    No items or modules currently have AI exposure above their weighted capability coverage.
+                  </p>
+                ) : (
+                  alignmentFlags.map((f) => (
+                    <p key={`${f.scope}-${f.id}`} className="p muted">
+                      {describeAlignmentFlag(f)}
+                    </p>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="stack-tight" style={{ marginTop: 24 }}>
+            <div className="badge">Gap findings</div>
+            {gapFindings.length === 0 ? (
+              <p className="p muted">No gap rules are triggered by the current mapping.</p>
+            ) : (
+              gapFindings.map((f, i) => (
+                <div key={`${f.ruleId}-${f.domain}-${i}`} style={{ display: "flex", gap: 8, alignItems: "baseline" }}>
+                  <span
+                    className="tag"
+                    style={{ ...SEVERITY_STYLES[f.severity], borderColor: SEVERITY_STYLES[f.severity].background, fontSize: 10 }}
+                  >
+                    {f.severity}
+                  </span>
+                  <span className="small">
+                    <strong>{f.name}:</strong> {f.message}
+                  </span>
+                </div>
+              ))
+            )}
+
+            <details style={{ marginTop: 8 }}>
+              <summary className="small" style={{ cursor: "pointer", fontWeight: 600 }}>
+                Gap rules ({programme.gapRules.length})
+              </summary>
+              <fieldset disabled={readOnly} className="stack" style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+                <div className="stack" style={{ marginTop: 10 }}>
+                  <p className="small muted" style={{ margin: 0 }}>
+                    Set what counts as a gap for this programme. Each rule produces named findings at its severity; the
+                    same findings appear in the coverage bars and in every export.
+                  </p>
+                  {programme.gapRules.map((rule) => (
+                    <div key={rule.id} className="card nested stack-tight">
+                      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                        <input
+                          type="text"
+                          value={rule.name}
+                          style={{ width: 200 }}
+                          onChange={(e) => updateGapRule(rule.id, { name: e.target.value })}
+                        />
+                        <select
+                          value={rule.severity}
+                          style={{ width: 110 }}
+                          onChange={(e) => updateGapRule(rule.id, { severity: coerceSeverity(e.target.value) })}
+                        >
+                          {SEVERITY_LEVELS.map((sev) => (
+                            <option key={sev} value={sev}>{sev}</option>
+                          ))}
+                        </select>
+                        <span className="small muted">{GAP_RULE_LABELS[rule.kind]}</span>
+                        <button className="secondary" onClick={() => removeGapRule(rule.id)}>
+                          Remove
+                        </button>
+                      </div>
+
+                      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                        {rule.kind === "relative-threshold" && (
+                          <>
+                            <span className="small">Below</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={roundScore(rule.fraction * 100)}
+                              style={{ width: 90 }}
+                              onChange={(e) => updateGapRule(rule.id, { fraction: (Number(e.target.value) || 0) / 100 })}
+                            />
+                            <span className="small">% of the programme average</span>
+                          </>
+                        )}
+                        {rule.kind === "required-domain" && (
+                          <>
+                            <span className="small">Every</span>
+                            <select
+                              value={rule.itemType}
+                              style={{ width: 140 }}
+                              onChange={(e) => updateGapRule(rule.id, { itemType: coerceMapItemType(e.target.value) })}
+                            >
+                              <option value="Module">Module</option>
+                              <option value="Activity">Activity</option>
+                              <option value="Assessment">Assessment</option>
+                            </select>
+                            <span className="small">must address</span>
+                          </>
+                        )}
+                        {(rule.kind === "target-minimum" || rule.kind === "target-share" || rule.kind === "required-domain") && (
+                          <select
+                            value={rule.domain}
+                            style={{ width: 240 }}
+                            onChange={(e) => updateGapRule(rule.id, { domain: e.target.value })}
+                          >
+                            {domains.map((d) => (
+                              <option key={d.key} value={d.key}>{d.name}</option>
+                            ))}
+                          </select>
+                        )}
+                        {rule.kind === "target-minimum" && (
+                          <>
+                            <span className="small">intensity of at least</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={rule.minimum}
+                              style={{ width: 90 }}
+                              onChange={(e) => updateGapRule(rule.id, { minimum: Number(e.target.value) || 0 })}
+                            />
+                          </>
+                        )}
+                        {rule.kind === "target-share" && (
+                          <>
+                            <span className="small">holds at least</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={rule.share}
+                              style={{ width: 90 }}
+                              onChange={(e) => updateGapRule(rule.id, { share: Number(e.target.value) || 0 })}
+                            />
+                            <span className="small">% of total intensity</span>
+                          </>
+                        )}
+                        {rule.kind === "no-coverage" && <span className="small muted">{describeGapRule(rule, domains)}</span>}
+                      </div>
+                    </div>
+                  ))}
+
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {(Object.keys(GAP_RULE_LABELS) as GapRuleKind[]).map((kind) => (
+                      <button key={kind} className="secondary" onClick={() => addGapRule(kind)}>
+                        + {GAP_RULE_LABELS[kind]}
+                      </button>
+                    ))}
+                    <button
+                      className="secondary"
+                      onClick={() => {
+                        if (window.confirm("Replace this programme's gap rules with the defaults?")) {
+                          updateProgramme({ gapRules: defaultGapRules() });
+                        }
+                      }}
+                    >
+                      Reset to defaults
+                    </button>
+                  </div>
+                </div>
+              </fieldset>
+            </details>
           </div>
 
+          <fieldset disabled={readOnly} className="stack" style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+            <div className="stack-tight" style={{ marginTop: 24 }}>
+              <div className="badge">Target profile</div>
+              <p className="small muted" style={{ margin: 0 }}>
+                Compare coverage with the intensity you want for this kind of programme (e.g. UG Year 1 or MSc), rather
+                than only with the programme's own average. Save targets as templates to reuse them across programmes.
+              </p>
+
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                <select value="" style={{ width: 260 }} onChange={(e) => e.target.value && applyTargetTemplate(e.target.value)}>
+                  <option value="">Apply a saved template…</option>
+                  {targetTemplates
+                    .filter((t) => t.frameworkId === programme.framework.id)
+                    .sort((a, b) => Number(b.awardLevel === programme.awardLevel) - Number(a.awardLevel === programme.awardLevel))
+                    .map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                        {t.awardLevel.trim() ? ` (${t.awardLevel.trim()})` : ""}
+                      </option>
+                    ))}
+                </select>
+                <button className="secondary" onClick={newTargetFromCoverage}>
+                  New target from current coverage
+                </button>
+                <button className="secondary" onClick={() => targetInputRef.current?.click()}>
+                  Import template (JSON)
+                </button>
+                <input
+                  ref={targetInputRef}
+                  type="file"
+                  accept="application/json"
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void importTargetTemplate(file);
+                  }}
+                />
+              </div>
+
+              {programme.targetProfile && targetComparison && (
+                <div className="card nested stack-tight">
+                  <div className="row">
+                    <div className="stack-tight">
+                      <label>Target name</label>
+                      <input
+                        type="text"
+                        value={programme.targetProfile.name}
+                        onChange={(e) =>
+                          programme.targetProfile &&
+                          updateProgramme({ targetProfile: { ...programme.targetProfile, name: e.target.value } })
+                        }
+                      />
+                    </div>
+                    <div className="stack-tight">
+                      <label>Award / level</label>
+                      <input
+                        type="text"
+                        value={programme.targetProfile.awardLevel}
+                        placeholder="e.g. MSc / UG Year 1"
+                        onChange={(e) =>
+                          programme.targetProfile &&
+                          updateProgramme({ targetProfile: { ...programme.targetProfile, awardLevel: e.target.value } })
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  <p className="small" style={{ margin: 0 }}>
+                    <strong>{targetComparison.percentMet}% of target met</strong> · total shortfall{" "}
+                    {targetComparison.totalShortfall} pts
+                    {domainsNeedingEffort(targetComparison).length > 0 &&
+                      ` · most effort needed: ${domainsNeedingEffort(targetComparison)
+                        .map((r) => `${r.domain.short} (+${r.shortfall} pts)`)
+                        .join(", ")}`}
+                  </p>
+
+                  {targetComparison.rows.map((r) => {
+                    const scale = Math.max(1, ...targetComparison.rows.flatMap((row) => [row.actual, row.target]));
+                    return (
+                      <div key={r.domain.key} className="stack-tight">
+                        <div style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+                          <span className="small" style={{ fontWeight: 600 }}>{r.domain.name}</span>
+                          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                            <span className="small muted">{r.actual}% of</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={programme.targetProfile?.targets[r.domain.key] ?? 0}
+                              style={{ width: 80 }}
+                              aria-label={`${r.domain.name} target share`}
+                              onChange={(e) => setTargetValue(r.domain.key, e.target.value)}
+                            />
+                            <span className="small muted">→ {r.target}%</span>
+                            {r.shortfall > 0 && <span className="small" style={{ color: "#92400E" }}>+{r.shortfall} pts</span>}
+                          </div>
+                        </div>
+                        <div style={{ position: "relative", height: 8, background: "#F3F4F6", borderRadius: 2 }}>
+                          <div
+                            style={{
+                              position: "absolute",
+                              inset: 0,
+                              width: `${Math.min(100, (r.actual / scale) * 100)}%`,
+                              background: r.shortfall > 0 ? "#F59E0B" : "#111111",
+                              borderRadius: 2,
+                            }}
+                          />
+                          <div
+                            title={`Target ${r.target}%`}
+                            style={{
+                              position: "absolute",
+                              top: -2,
+                              bottom: -2,
+                              left: `${Math.min(100, (r.target / scale) * 100)}%`,
+                              width: 2,
+                              background: "#2563EB",
+                            }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <p className="small muted" style={{ margin: 0 }}>
+                    Targets are shares of the programme's total intensity and are scaled to sum to 100%. Bars show each
+                    domain's actual share; the blue marker is the target share.
+                  </p>
+
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <button className="secondary" onClick={saveTargetTemplate}>
+                      Save as template
+                    </button>
+                    <button className="secondary" onClick={exportTargetTemplate}>
+                      Export template (JSON)
+                    </button>
+                    {targetTemplates.some((t) => t.id === programme.targetProfile?.id) && (
+                      <button
+                        className="secondary"
+                        onClick={() => programme.targetProfile && deleteTargetTemplate(programme.targetProfile.id)}
+                      >
+                        Delete saved template
+                      </button>
+                    )}
+                    <button className="secondary" onClick={() => updateProgramme({ targetProfile: undefined })}>
+                      Remove target
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </fieldset>
+
+          {programme.baseline && (
+            <div className="stack-tight" style={{ marginTop: 24 }}>
+              <div className="badge">Cohort baseline</div>
+              <p className="small muted" style={{ margin: 0 }}>
+                From {programme.baseline.source}
+                {programme.baseline.cohort ? ` · ${programme.baseline.cohort}` : ""}
+                {programme.baseline.assessedAt ? ` · assessed ${programme.baseline.assessedAt}` : ""} · scale{" "}
+                {programme.baseline.scaleMin}–{programme.baseline.scaleMax}. Shows where students start, alongside how
+                much the programme develops each domain.
+              </p>
+              {domains.map((d) => {
+                const baseline = programme.baseline;
+                const pct = baseline ? baselinePercent(baseline, d.key) : undefined;
+                return (
+                  <div key={d.key} className="stack-tight">
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+                      <span className="small" style={{ fontWeight: 600 }}>{d.name}</span>
+                      <span className="small muted">
+                        {pct === undefined ? "Not assessed" : `${baseline?.scores[d.key]} (${pct}%)`} · {weightedCoverage[d.key]} intensity
+                      </span>
+                    </div>
+                    <div style={{ height: 4, background: "#F3F4F6", borderRadius: 2, overflow: "hidden" }}>
+                      <div style={{ height: "100%", width: `${pct ?? 0}%`, background: "#2563EB" }} />
+                    </div>
+                  </div>
+                );
+              })}
+              <div>
+                <button
+                  className="secondary"
+                  onClick={() => window.confirm("Remove the cohort baseline from this programme?") && updateProgramme({ baseline: undefined })}
+                >
+                  Remove baseline
+                </button>
+              </div>
+            </div>
+          )}
+
           <hr className="sep" />
 
           <div className="stack">
@@ -937,6 +7347,137 @@ export default function App() {
         </div>
 
 
+        {/* Comparison (collapsed by default) */}
+        <div className="card stack">
+          <details>
+            <summary className="h2" style={{ cursor: "pointer", listStyle: "none" }}>
+              Compare mappings (optional) <span className="muted" style={{ fontSize: 14 }}>— click to expand</span>
+            </summary>
+
+            <p className="p muted" style={{ marginTop: 10 }}>
+              Compare two programmes, or two versions of the same programme, from this workspace or from JSON exports.
+              The changes can be exported as a “changes since last review” section for QA committees.
+            </p>
+
+            <div style={{ marginTop: 16 }}>
+              <ComparisonPanel
+                entries={workspace.programmes}
+                activeId={workspace.activeId}
+                programme={programme}
+                items={items}
+              />
+            </div>
+          </details>
+        </div>
+
+        {/* Snapshots (collapsed by default) */}
+        <div className="card stack">
+          <details>
+            <summary className="h2" style={{ cursor: "pointer", listStyle: "none" }}>
+              Snapshots & history (optional) <span className="muted" style={{ fontSize: 14 }}>— click to expand</span>
+            </summary>
+
+            <p className="p muted" style={{ marginTop: 10 }}>
+              Snapshots are stored in this browser. One is taken automatically before each import, clear or restore.
+            </p>
+
+            <div style={{ marginTop: 16 }}>
+              <button className="secondary" onClick={saveNamedSnapshot}>Take snapshot</button>
+            </div>
+
+            <div className="stack" style={{ marginTop: 16 }}>
+              {activeSnapshots.length === 0 && <p className="small muted">No snapshots for this programme yet.</p>}
+              {activeSnapshots.map((sn) => {
+                const preview = previewSnapshotId === sn.id ? tallyCoverage(sn.items, sn.programme.framework.domains) : null;
+                return (
+                  <div key={sn.id} className="card nested stack-tight">
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                      <div className="badge">
+                        <strong>{sn.name}</strong>
+                        <span>{formatTimestamp(sn.takenAt)}</span>
+                        <span className="muted">•</span>
+                        <span>{sn.programme.version || "no version"}</span>
+                        {sn.auto && <span className="tag">Automatic</span>}
+                      </div>
+                      <div style={{ display: "flex", gap: 8 }}>
+                        <button
+                          className="secondary"
+                          onClick={() => setPreviewSnapshotId(previewSnapshotId === sn.id ? null : sn.id)}
+                        >
+                          {previewSnapshotId === sn.id ? "Hide" : "Preview"}
+                        </button>
+                        <button className="secondary" onClick={() => restoreSnapshot(sn)}>Restore</button>
+                        <button className="secondary" onClick={() => deleteSnapshot(sn.id)}>Delete</button>
+                      </div>
+                    </div>
+
+                    {preview && (
+                      <div className="stack-tight">
+                        <p className="small muted" style={{ margin: 0 }}>
+                          {sn.programme.programmeTitle || "Untitled programme"} · {sn.items.length} item
+                          {sn.items.length === 1 ? "" : "s"} ·{" "}
+                          {domains.map((d) => `${d.short} ${preview.weightedCoverage[d.key]}`).join(" · ")}
+                        </p>
+                        <ul className="small" style={{ margin: 0, paddingLeft: 18 }}>
+                          {sn.items.map((it) => (
+                            <li key={it.id}>
+                              {it.type}: {it.name || "Untitled"}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </details>
+        </div>
+
+        {/* Review audit trail (collapsed by default) */}
+        <div className="card stack">
+          <details>
+            <summary className="h2" style={{ cursor: "pointer", listStyle: "none" }}>
+              Review audit trail ({programmeAudit.length}){" "}
+              <span className="muted" style={{ fontSize: 14 }}>— click to expand</span>
+            </summary>
+
+            <p className="p muted" style={{ marginTop: 10 }}>
+              Who changed what and when: status changes, reviewers, comments and edits, newest first. Stored in this
+              browser and included in Markdown and JSON exports. The latest {AUDIT_TRAIL_LIMIT} entries are kept; a
+              Truncated entry records how many earlier ones were dropped.
+            </p>
+
+            {programmeAudit.length === 0 ? (
+              <p className="small muted">Nothing recorded for this programme yet.</p>
+            ) : (
+              <div style={{ overflowX: "auto", border: "1px solid #E5E7EB", borderRadius: 6 }}>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                  <thead>
+                    <tr>
+                      {["When", "Who", "What", "Detail"].map((h) => (
+                        <th key={h} style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...programmeAudit].reverse().map((e) => (
+                      <tr key={e.id} style={{ borderTop: "1px solid #E5E7EB" }}>
+                        <td className="small" style={{ padding: 8, whiteSpace: "nowrap" }}>
+                          {new Date(e.at).toLocaleString()}
+                        </td>
+                        <td className="small" style={{ padding: 8 }}>{e.actor || "—"}</td>
+                        <td className="small" style={{ padding: 8 }}>{e.kind}</td>
+                        <td className="small" style={{ padding: 8 }}>{e.detail}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </details>
+        </div>
+
         {/* Framing & next steps */}
         <div className="card stack">
           <h2 className="h2">Use and limitations</h2>
@@ -947,6 +7488,57 @@ export default function App() {
           </p>
         </div>
 
+        <div className="card stack">
+          <details>
+            <summary className="h2" style={{ cursor: "pointer", listStyle: "none" }}>
+              Governance register <span className="muted" style={{ fontSize: 14 }}>— click to expand</span>
+            </summary>
+
+            <p className="p muted" style={{ marginTop: 10 }}>
+              Item-level risks and who owns them, earliest review first. Add notes under “Governance notes” on each item.
+            </p>
+
+            {governanceRegister.length === 0 ? (
+              <p className="small muted">No item has governance notes yet.</p>
+            ) : (
+              <div style={{ overflowX: "auto", border: "1px solid #E5E7EB", borderRadius: 6 }}>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                  <thead>
+                    <tr>
+                      {["#", "Item", "Risks or concerns", "Risk owner", "Review due"].map((h) => (
+                        <th key={h} style={{ textAlign: "left", fontSize: 11, padding: 8, color: "#777" }}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {governanceRegister.map((r) => (
+                      <tr key={r.itemId} style={{ borderTop: "1px solid #E5E7EB" }}>
+                        <td className="small" style={{ padding: 8 }}>{itemNumber.get(r.itemId)}</td>
+                        <td className="small" style={{ padding: 8 }}>
+                          {r.name || "Untitled"} <span className="muted">({r.type})</span>
+                        </td>
+                        <td className="small" style={{ padding: 8, whiteSpace: "pre-wrap" }}>{r.risks || "—"}</td>
+                        <td className="small" style={{ padding: 8 }}>
+                          {r.riskOwner || (r.risks ? <span style={{ color: "#B91C1C", fontWeight: 600 }}>Unowned</span> : "—")}
+                        </td>
+                        <td className="small" style={{ padding: 8, color: r.overdue ? "#B91C1C" : undefined }}>
+                          {r.reviewDue ? `${r.reviewDue}${r.overdue ? " (overdue)" : ""}` : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {items.length > governanceRegister.length && governanceRegister.length > 0 && (
+              <p className="small muted" style={{ marginTop: 8 }}>
+                {items.length - governanceRegister.length} item{items.length - governanceRegister.length === 1 ? " has" : "s have"} no
+                governance notes.
+              </p>
+            )}
+          </details>
+        </div>
+
         {/* Lightweight capability and governance layer */}
         {/* Optional, non-blocking, and does not alter core workflow */}
         <div className="card stack">
@@ -959,50 +7551,52 @@ export default function App() {
               Use these optional fields to make AI assumptions, risks, and rationales visible.
             </p>
 
-            <div className="stack" style={{ marginTop: 16 }}>
-              <label>AI Involvement</label>
-              <textarea
-                value={programme.aiInvolvement || ""}
-                placeholder="How is AI involved in this process?"
-                onChange={(e) => updateProgramme({ aiInvolvement: e.target.value })}
-              />
-            </div>
+            <fieldset disabled={readOnly} className="stack" style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+              <div className="stack" style={{ marginTop: 16 }}>
+                <label>AI Involvement</label>
+                <textarea
+                  value={programme.aiInvolvement || ""}
+                  placeholder="How is AI involved in this process?"
+                  onChange={(e) => updateProgramme({ aiInvolvement: e.target.value })}
+                />
+              </div>
             
-            <div className="stack">
-              <label>Assumptions</label>
-              <textarea
-                value={programme.assumptions || ""}
-                placeholder="What assumptions are being made?"
-                onChange={(e) => updateProgramme({ assumptions: e.target.value })}
-              />
-            </div>
+              <div className="stack">
+                <label>Assumptions</label>
+                <textarea
+                  value={programme.assumptions || ""}
+                  placeholder="What assumptions are being made?"
+                  onChange={(e) => updateProgramme({ assumptions: e.target.value })}
+                />
+              </div>
 
-            <div className="stack">
-              <label>Risks or Concerns</label>
-              <textarea
-                value={programme.risks || ""}
-                placeholder="What are the potential risks?"
-                onChange={(e) => updateProgramme({ risks: e.target.value })}
-              />
-            </div>
+              <div className="stack">
+                <label>Risks or Concerns</label>
+                <textarea
+                  value={programme.risks || ""}
+                  placeholder="What are the potential risks?"
+                  onChange={(e) => updateProgramme({ risks: e.target.value })}
+                />
+              </div>
 
-            <div className="stack">
-              <label>Rationale</label>
-              <textarea
-                value={programme.rationale || ""}
-                placeholder="Why was this approach chosen?"
-                onChange={(e) => updateProgramme({ rationale: e.target.value })}
-              />
-            </div>
+              <div className="stack">
+                <label>Rationale</label>
+                <textarea
+                  value={programme.rationale || ""}
+                  placeholder="Why was this approach chosen?"
+                  onChange={(e) => updateProgramme({ rationale: e.target.value })}
+                />
+              </div>
 
-            <div className="stack">
-              <label>Human Review Notes</label>
-              <textarea
-                value={programme.reviewNotes || ""}
-                placeholder="Notes from human review and oversight"
-                onChange={(e) => updateProgramme({ reviewNotes: e.target.value })}
-              />
-            </div>
+              <div className="stack">
+                <label>Human Review Notes</label>
+                <textarea
+                  value={programme.reviewNotes || ""}
+                  placeholder="Notes from human review and oversight"
+                  onChange={(e) => updateProgramme({ reviewNotes: e.target.value })}
+                />
+              </div>
+            </fieldset>
           </details>
         </div>
 
@@ -1,16 +1,21 @@
-export type DomainKey =
-  | "awareness"
-  | "coagency"
-  | "practice"
-  | "ethics"
-  | "governance"
-  | "reflection";
+/**
+ * Domain keys come from the active capability framework. The CloudPedagogy
+ * framework uses: awareness, coagency, practice, ethics, governance, reflection.
+ */
+export type DomainKey = string;
+
+/** A named indicator (sub-competency) within a domain; items can be tagged against it. */
+export type Indicator = {
+  key: string;
+  name: string;
+};
 
 export type Domain = {
   key: DomainKey;
   name: string;
   short: string;
   prompt: string;
+  indicators?: Indicator[];
 };
 
 export const DOMAINS: Domain[] = [
@@ -19,35 +24,71 @@ export const DOMAINS: Domain[] = [
     name: "Awareness & Orientation",
     short: "Awareness",
     prompt: "Consider current AI awareness, assumptions, and shared understanding in this programme context.",
+    indicators: [
+      { key: "capabilities", name: "Capabilities and limitations" },
+      { key: "assumptions", name: "Assumptions and misconceptions" },
+      { key: "shared-understanding", name: "Shared understanding" },
+    ],
   },
   {
     key: "coagency",
     name: "Human–AI Co-Agency",
     short: "Co-Agency",
     prompt: "Consider how people will partner with AI systems, maintain agency, and clarify roles and responsibilities.",
+    indicators: [
+      { key: "partnership", name: "Partnering with AI systems" },
+      { key: "agency", name: "Maintaining human agency" },
+      { key: "roles", name: "Roles and responsibilities" },
+    ],
   },
   {
     key: "practice",
     name: "Applied Practice & Innovation",
     short: "Practice",
     prompt: "Consider where learners apply AI in authentic practice, experimentation, and improvement—beyond surface tool use.",
+    indicators: [
+      { key: "authentic-practice", name: "Authentic practice" },
+      { key: "experimentation", name: "Experimentation" },
+      { key: "improvement", name: "Improvement and innovation" },
+    ],
   },
   {
     key: "ethics",
     name: "Ethics, Equity & Impact",
     short: "Ethics",
     prompt: "Consider ethical risk, equity, accessibility, bias, and downstream impacts across learners and stakeholders.",
+    indicators: [
+      { key: "ethical-risk", name: "Ethical risk" },
+      { key: "equity", name: "Equity" },
+      { key: "accessibility", name: "Accessibility" },
+      { key: "bias", name: "Bias" },
+      { key: "environmental-impact", name: "Environmental impact" },
+      { key: "downstream-impact", name: "Downstream impact on stakeholders" },
+    ],
   },
   {
     key: "governance",
     name: "Decision-Making & Governance",
     short: "Governance",
     prompt: "Consider decision ownership, approval processes, safeguards, documentation, and institutional alignment.",
+    indicators: [
+      { key: "decision-ownership", name: "Decision ownership" },
+      { key: "approval", name: "Approval processes" },
+      { key: "safeguards", name: "Safeguards" },
+      { key: "documentation", name: "Documentation" },
+      { key: "institutional-alignment", name: "Institutional alignment" },
+    ],
   },
   {
     key: "reflection",
     name: "Reflection, Learning & Renewal",
     short: "Renewal",
     prompt: "Consider how learning is reviewed, improved over time, and supported through reflective practice and feedback loops.",
+    indicators: [
+      { key: "review", name: "Review and evaluation" },
+      { key: "renewal", name: "Improvement over time" },
+      { key: "reflective-practice", name: "Reflective practice" },
+      { key: "feedback", name: "Feedback loops" },
+    ],
   },
 ];
@@ -0,0 +1,20 @@
+import { DOMAINS } from "./domains";
+import type { Domain } from "./domains";
+
+/** A capability framework that programmes are mapped against. */
+export type FrameworkDefinition = {
+  id: string;
+  version: string;
+  name: string;
+  domains: Domain[];
+};
+
+export const DEFAULT_FRAMEWORK: FrameworkDefinition = {
+  id: "cloudpedagogy-ai-capability",
+  version: "1.0",
+  name: "CloudPedagogy AI Capability Framework",
+  domains: DOMAINS,
+};
+
+/** Frameworks that files may reference by id without embedding their definition. */
+export const BUILT_IN_FRAMEWORKS: FrameworkDefinition[] = [DEFAULT_FRAMEWORK];
@@ -0,0 +1,178 @@
+import { Ajv2020 } from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import { describe, expect, it } from "vitest";
+import dashboardSchema from "../docs/schemas/dashboard-signals.v1.schema.json";
+import simulationSchema from "../docs/schemas/simulation-structure.v1.schema.json";
+import { DEFAULT_FRAMEWORK } from "./content/frameworks";
+import {
+  buildDashboardExport,
+  buildSimulationExport,
+  importSimulationStructure,
+  readInterchangeEnvelope,
+} from "./interchange";
+import { defaultProgrammeDetails, normalizeItems, simpleScore } from "./model";
+import type { ImportIssue, MapItem, ProgrammeDetails } from "./model";
+
+const EXPORTED_AT = "2026-10-19T09:30:00.000Z";
+
+const programme: ProgrammeDetails = {
+  ...defaultProgrammeDetails(),
+  programmeTitle: "MSc Public Health",
+  awardLevel: "MSc",
+  scoringModel: "credit-weighted",
+  stages: [
+    { id: "y1", kind: "Year", label: "Year 1" },
+    { id: "t2", kind: "Term", label: "Term 2" },
+  ],
+  targetProfile: {
+    id: "target",
+    name: "MSc baseline",
+    awardLevel: "MSc",
+    frameworkId: DEFAULT_FRAMEWORK.id,
+    targets: { awareness: 50, ethics: 50 },
+  },
+};
+
+// Normalised once so the fixture is in the shape every reader produces.
+const items: MapItem[] = normalizeItems(
+  [
+    {
+      id: "m1",
+      type: "Module",
+      name: "Foundations",
+      stageId: "y1",
+      credits: 15,
+      exposure: "Permitted",
+      domains: { ethics: "Developed", awareness: "Introduced" },
+      indicators: { ethics: ["bias"] },
+    },
+    {
+      id: "a1",
+      type: "Activity",
+      name: "Prompting workshop",
+      parentId: "m1",
+      contactHours: 3,
+      exposure: "Required",
+      domains: { practice: "Applied" },
+    },
+    {
+      id: "s1",
+      type: "Assessment",
+      name: "Policy critique",
+      parentId: "m1",
+      stageId: "t2",
+      weighting: 60,
+      exposure: "Assessed",
+      domains: { ethics: "Assessed", governance: "Developed" },
+    },
+  ],
+  DEFAULT_FRAMEWORK.domains
+);
+
+function schemaValidator(schema: object) {
+  const ajv = new Ajv2020({ allErrors: true });
+  addFormats(ajv);
+  return ajv.compile(schema);
+}
+
+/** Serialise and parse, as a file written by one tool and read by another would be. */
+function throughJSON(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe("simulation structure export", () => {
+  it("imports back to the same items, stages and scoring model", () => {
+    const file = throughJSON(buildSimulationExport(programme, items, simpleScore, EXPORTED_AT));
+
+    const issues: ImportIssue[] = [];
+    const envelope = readInterchangeEnvelope(file, issues);
+    if ("error" in envelope) throw new Error(envelope.error);
+    expect(envelope.kind).toBe("simulation-structure");
+
+    const result = importSimulationStructure(envelope.payload, programme.framework, issues);
+    if ("error" in result) throw new Error(result.error);
+    expect(issues).toEqual([]);
+    expect(result.items).toEqual(items);
+    expect(result.programme.stages).toEqual(programme.stages);
+    expect(result.programme.scoringModel).toBe(programme.scoringModel);
+  });
+
+  it("imports the items its issue report describes", () => {
+    const file = throughJSON(buildSimulationExport(programme, items, simpleScore, EXPORTED_AT)) as {
+      payload: { items: Record<string, unknown>[] };
+    };
+    file.payload.items[0] = {
+      ...file.payload.items[0],
+      type: "Workshop",
+      exposure: "Sometimes",
+      domains: { ethics: "yes", awareness: "I", practice: "maybe", unknown: "Applied" },
+    };
+
+    const issues: ImportIssue[] = [];
+    const envelope = readInterchangeEnvelope(file, issues);
+    if ("error" in envelope) throw new Error(envelope.error);
+    const result = importSimulationStructure(envelope.payload, programme.framework, issues);
+    if ("error" in result) throw new Error(result.error);
+
+    const path = "$.payload.items[0]";
+    expect(issues).toEqual([
+      { path: `${path}.type`, kind: "Coerced", detail: 'unknown type "Workshop" read as Module' },
+      { path: `${path}.exposure`, kind: "Coerced", detail: 'unknown exposure "Sometimes" read as None' },
+      { path: `${path}.domains.ethics`, kind: "Coerced", detail: '"yes" read as Developed' },
+      { path: `${path}.domains.awareness`, kind: "Coerced", detail: '"I" read as Introduced' },
+      { path: `${path}.domains.practice`, kind: "Dropped", detail: 'depth "maybe" not recognised' },
+      { path: `${path}.domains.unknown`, kind: "Dropped", detail: "domain not in the active framework" },
+    ]);
+    const imported = result.items[0];
+    expect(imported.type).toBe("Module");
+    expect(imported.exposure).toBe("None");
+    expect(imported.domains).toEqual({ ethics: "Developed", awareness: "Introduced" });
+    // The ethics indicators survive because the domain is still tagged.
+    expect(imported.indicators).toEqual({ ethics: ["bias"] });
+  });
+
+  it("matches the published schema", () => {
+    const validate = schemaValidator(simulationSchema);
+    const file = throughJSON(buildSimulationExport(programme, items, simpleScore, EXPORTED_AT));
+    expect(validate(file), JSON.stringify(validate.errors)).toBe(true);
+  });
+});
+
+describe("dashboard signals export", () => {
+  it("matches the published schema", () => {
+    const validate = schemaValidator(dashboardSchema);
+    const file = throughJSON(
+      buildDashboardExport({
+        programme,
+        items,
+        coverage: { awareness: 1, coagency: 0, practice: 1, ethics: 2, governance: 1, reflection: 0 },
+        weightedCoverage: { awareness: 1, coagency: 0, practice: 3, ethics: 4.4, governance: 2, reflection: 0 },
+        exposureTotal: 9,
+        gapFindings: [
+          { ruleId: "no-coverage", name: "No coverage", severity: "High", domain: "coagency", message: "" },
+        ],
+        targetComparison: { rows: [], totalShortfall: 18, percentMet: 82 },
+        traceability: [],
+        exportedAtISO: EXPORTED_AT,
+      })
+    );
+    expect(validate(file), JSON.stringify(validate.errors)).toBe(true);
+  });
+
+  it("is refused as a mapping import", () => {
+    const file = throughJSON(
+      buildDashboardExport({
+        programme,
+        items,
+        coverage: {},
+        weightedCoverage: {},
+        exposureTotal: 0,
+        gapFindings: [],
+        targetComparison: null,
+        traceability: [],
+        exportedAtISO: EXPORTED_AT,
+      })
+    );
+    expect(readInterchangeEnvelope(file, [])).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,549 @@
+import type { DomainKey } from "./content/domains";
+import type { FrameworkDefinition } from "./content/frameworks";
+import {
+  asRecord,
+  coerceExposure,
+  coerceMapItemType,
+  coerceScoringModel,
+  defaultProgrammeDetails,
+  DEPTH_MAP,
+  domainScore,
+  newItem,
+  newStage,
+  normalizeItems,
+  normalizeStages,
+  readDomainTags,
+  readList,
+  readNumber,
+  readText,
+  reportUnknownFields,
+  roundScore,
+  safeUUID,
+} from "./model";
+import type {
+  AIExposure,
+  CapabilityBaseline,
+  DomainDepth,
+  FindingSeverity,
+  GapFinding,
+  GovernanceNoteField,
+  ImportIssue,
+  ItemScorer,
+  MapItem,
+  MapItemType,
+  OutcomeTrace,
+  ProgrammeDetails,
+  ProgrammeStage,
+  ScoringModel,
+  StageKind,
+  TargetComparison,
+} from "./model";
+
+/** Identifies the framework a file was mapped against. */
+export type FrameworkReference = {
+  id: string;
+  version: string;
+  name: string;
+};
+
+/** Envelope identifier of the CloudPedagogy shared interchange format. */
+export const INTERCHANGE_SCHEMA = "cloudpedagogy.interchange";
+
+/** Interchange major versions this tool can read; minor versions add optional fields only. */
+const INTERCHANGE_MAJOR_VERSIONS = ["1"];
+
+/** Version of the export profiles this tool writes (within the interchange envelope). */
+const INTERCHANGE_EXPORT_VERSION = "1.0";
+
+/** Source id this tool writes into interchange files. */
+const INTERCHANGE_SOURCE = "programme-mapping";
+
+type InterchangeKind = "curriculum-structure" | "capability-baseline" | "simulation-structure" | "dashboard-signals";
+
+type InterchangeEnvelope<K extends InterchangeKind, P> = {
+  schema: typeof INTERCHANGE_SCHEMA;
+  schemaVersion: string;
+  kind: K;
+  source: string;
+  exportedAt: string; // ISO datetime
+  payload: P;
+};
+
+/**
+ * Item structure for the Curriculum Simulation Tool: hierarchy, size, depth
+ * tags and the per-domain weight each item contributes. Free-text notes are omitted.
+ */
+type SimulationExport = InterchangeEnvelope<
+  "simulation-structure",
+  {
+    framework: FrameworkReference & { domains: { key: DomainKey; name: string }[] };
+    scoringModel: ScoringModel;
+    depthScale: Record<DomainDepth, number>;
+    stages: ProgrammeStage[];
+    items: {
+      id: string;
+      type: MapItemType;
+      name: string;
+      parentId?: string;
+      stageId?: string;
+      credits?: number;
+      weighting?: number;
+      contactHours?: number;
+      exposure: AIExposure;
+      domains: Partial<Record<DomainKey, DomainDepth>>;
+      indicators?: Record<DomainKey, string[]>;
+      /** Intensity the item contributes to each tagged domain under the scoring model, after the indicator roll-up. */
+      weights: Record<DomainKey, number>;
+    }[];
+  }
+>;
+
+/** Aggregated signals for governance dashboards. Contains no item names or notes. */
+type DashboardExport = InterchangeEnvelope<
+  "dashboard-signals",
+  {
+    programme: Pick<
+      ProgrammeDetails,
+      "programmeTitle" | "awardLevel" | "department" | "institution" | "mappingDate" | "version"
+    >;
+    framework: FrameworkReference;
+    scoringModel: ScoringModel;
+    totals: { items: number; modules: number; activities: number; assessments: number; exposure: number };
+    coverage: { domain: DomainKey; taggedItems: number; intensity: number; share: number }[];
+    gaps: { ruleId: string; name: string; severity: FindingSeverity; domain: DomainKey; itemCount: number }[];
+    target?: { name: string; awardLevel: string; percentMet: number; totalShortfall: number };
+    outcomes: { total: number; notAssessed: number; linkGaps: number };
+    governance: Pick<ProgrammeDetails, GovernanceNoteField>;
+  }
+>;
+
+export function frameworkReference(framework: FrameworkDefinition): FrameworkReference {
+  return { id: framework.id, version: framework.version, name: framework.name };
+}
+
+/**
+ * Check the interchange envelope. Returns the payload, or a message when the
+ * file is not a supported version of the expected kind.
+ */
+export function readInterchangeEnvelope(
+  raw: unknown,
+  issues: ImportIssue[]
+): { kind: InterchangeKind; version: string; source: string; payload: Record<string, unknown> } | { error: string } {
+  const obj = asRecord(raw);
+  if (!obj || obj.schema !== INTERCHANGE_SCHEMA) return { error: `Not a ${INTERCHANGE_SCHEMA} file.` };
+
+  const version = typeof obj.schemaVersion === "string" ? obj.schemaVersion : String(obj.schemaVersion ?? "");
+  if (!INTERCHANGE_MAJOR_VERSIONS.includes(version.split(".")[0])) {
+    return {
+      error: `Schema version “${version || "missing"}” is not supported (this tool reads ${INTERCHANGE_MAJOR_VERSIONS.map((v) => `${v}.x`).join(", ")}).`,
+    };
+  }
+  if (obj.kind === "dashboard-signals") {
+    return { error: "Dashboard signal files hold aggregated results only and cannot be imported as a mapping." };
+  }
+  if (obj.kind !== "curriculum-structure" && obj.kind !== "capability-baseline" && obj.kind !== "simulation-structure") {
+    return { error: `Unknown interchange kind “${String(obj.kind)}”.` };
+  }
+  const payload = asRecord(obj.payload);
+  if (!payload) return { error: "The file has no payload object." };
+
+  reportUnknownFields(obj, ["schema", "schemaVersion", "kind", "source", "exportedAt", "payload"], "$", issues);
+  return { kind: obj.kind, version, source: typeof obj.source === "string" ? obj.source : "unknown", payload };
+}
+
+function coerceInterchangeStageKind(
+  v: string | undefined,
+  path: string,
+  issues: ImportIssue[]
+): StageKind {
+  const kind = ["Year", "Term", "Block"].find((k) => k.toLowerCase() === (v ?? "").trim().toLowerCase());
+  if (kind && kind !== v) issues.push({ path, kind: "Coerced", detail: `“${v}” read as ${kind}` });
+  if (!kind && v !== undefined) issues.push({ path, kind: "Coerced", detail: `unknown stage kind “${v}” read as Year` });
+  return (kind as StageKind | undefined) ?? "Year";
+}
+
+/**
+ * Import a Mapping Engine curriculum structure: programme details, stages,
+ * modules with their activities and assessments, and learning outcomes.
+ * Capability tags are optional in this format; most imports arrive untagged.
+ */
+export function importCurriculumStructure(
+  payload: Record<string, unknown>,
+  framework: FrameworkDefinition,
+  issues: ImportIssue[]
+): { programme: ProgrammeDetails; items: MapItem[] } {
+  const domains = framework.domains;
+  const programme: ProgrammeDetails = { ...defaultProgrammeDetails(), framework };
+  const items: MapItem[] = [];
+  const usedIds = new Set<string>();
+  const takeId = (id: string | undefined, path: string) => {
+    if (id && !usedIds.has(id)) {
+      usedIds.add(id);
+      return id;
+    }
+    if (id) issues.push({ path: `${path}.id`, kind: "Coerced", detail: `duplicate id “${id}” replaced` });
+    const fresh = safeUUID();
+    usedIds.add(fresh);
+    return fresh;
+  };
+
+  reportUnknownFields(payload, ["programme", "stages", "learningOutcomes", "modules"], "$.payload", issues);
+
+  const prog = asRecord(payload.programme);
+  if (prog) {
+    const path = "$.payload.programme";
+    reportUnknownFields(prog, ["title", "awardLevel", "department", "institution", "version"], path, issues);
+    programme.programmeTitle = readText(prog, "title", path, issues) ?? "";
+    programme.awardLevel = readText(prog, "awardLevel", path, issues) ?? "";
+    programme.department = readText(prog, "department", path, issues) ?? "";
+    programme.institution = readText(prog, "institution", path, issues) ?? "";
+    programme.version = readText(prog, "version", path, issues) ?? programme.version;
+  }
+
+  const stageIds = new Map<string, string>();
+  readList(payload, "stages", "$.payload", issues).forEach((raw, idx) => {
+    const path = `$.payload.stages[${idx}]`;
+    const st = asRecord(raw);
+    if (!st) return issues.push({ path, kind: "Dropped", detail: "expected an object" });
+    reportUnknownFields(st, ["id", "label", "kind"], path, issues);
+    const kind = coerceInterchangeStageKind(readText(st, "kind", path, issues), `${path}.kind`, issues);
+    const stage = newStage(kind, idx + 1);
+    const label = readText(st, "label", path, issues);
+    if (label) stage.label = label;
+    const sourceId = readText(st, "id", path, issues);
+    if (sourceId) stageIds.set(sourceId, stage.id);
+    programme.stages.push(stage);
+  });
+
+  const outcomeIds = new Map<string, string>();
+  const readOutcome = (raw: unknown, path: string, moduleId?: string) => {
+    const o = asRecord(raw);
+    if (!o) return issues.push({ path, kind: "Dropped", detail: "expected an object" });
+    reportUnknownFields(o, ["id", "code", "text", "domains"], path, issues);
+    const id = safeUUID();
+    const sourceId = readText(o, "id", path, issues);
+    if (sourceId) outcomeIds.set(sourceId, id);
+    const linked = readList(o, "domains", path, issues).filter((k, i) => {
+      const ok = typeof k === "string" && domains.some((d) => d.key === k);
+      if (!ok) issues.push({ path: `${path}.domains[${i}]`, kind: "Dropped", detail: "domain not in the active framework" });
+      return ok;
+    }) as DomainKey[];
+    programme.outcomes.push({
+      id,
+      code: readText(o, "code", path, issues) ?? "",
+      text: readText(o, "text", path, issues) ?? "",
+      ...(moduleId ? { moduleId } : {}),
+      domains: linked,
+    });
+  };
+  readList(payload, "learningOutcomes", "$.payload", issues).forEach((o, i) =>
+    readOutcome(o, `$.payload.learningOutcomes[${i}]`)
+  );
+
+  const assessed: { item: MapItem; refs: unknown[]; path: string }[] = [];
+  const stageRef = (obj: Record<string, unknown>, path: string) => {
+    const ref = readText(obj, "stageId", path, issues);
+    if (ref === undefined) return {};
+    const id = stageIds.get(ref);
+    if (!id) issues.push({ path: `${path}.stageId`, kind: "Dropped", detail: `no stage with id “${ref}”` });
+    return id ? { stageId: id } : {};
+  };
+  const itemName = (obj: Record<string, unknown>, path: string) => {
+    const code = readText(obj, "code", path, issues)?.trim();
+    const title = readText(obj, "title", path, issues)?.trim() ?? "";
+    return code ? `${code} ${title}`.trim() : title;
+  };
+
+  readList(payload, "modules", "$.payload", issues).forEach((raw, mi) => {
+    const path = `$.payload.modules[${mi}]`;
+    const m = asRecord(raw);
+    if (!m) return issues.push({ path, kind: "Dropped", detail: "expected an object" });
+    reportUnknownFields(
+      m,
+      ["id", "code", "title", "credits", "stageId", "description", "domains", "learningOutcomes", "components"],
+      path,
+      issues
+    );
+    const credits = readNumber(m, "credits", path, issues);
+    const module: MapItem = {
+      ...newItem("Module"),
+      id: takeId(readText(m, "id", path, issues), path),
+      name: itemName(m, path),
+      notes: readText(m, "description", path, issues) ?? "",
+      domains: readDomainTags(m, path, domains, issues),
+      ...(credits !== undefined ? { credits } : {}),
+      ...stageRef(m, path),
+    };
+    items.push(module);
+    readList(m, "learningOutcomes", path, issues).forEach((o, i) =>
+      readOutcome(o, `${path}.learningOutcomes[${i}]`, module.id)
+    );
+
+    readList(m, "components", path, issues).forEach((craw, ci) => {
+      const cpath = `${path}.components[${ci}]`;
+      const c = asRecord(craw);
+      if (!c) return issues.push({ path: cpath, kind: "Dropped", detail: "expected an object" });
+      reportUnknownFields(
+        c,
+        ["id", "code", "title", "type", "contactHours", "weighting", "stageId", "description", "domains", "assesses"],
+        cpath,
+        issues
+      );
+      const typeRaw = readText(c, "type", cpath, issues);
+      const type = typeRaw?.trim().toLowerCase() === "assessment" ? "Assessment" : "Activity";
+      if (typeRaw !== undefined && typeRaw.trim().toLowerCase() !== type.toLowerCase()) {
+        issues.push({ path: `${cpath}.type`, kind: "Coerced", detail: `“${typeRaw}” read as Activity` });
+      }
+      const contactHours = type === "Activity" ? readNumber(c, "contactHours", cpath, issues) : undefined;
+      const weighting = type === "Assessment" ? readNumber(c, "weighting", cpath, issues) : undefined;
+      const item: MapItem = {
+        ...newItem(type, module.id),
+        id: takeId(readText(c, "id", cpath, issues), cpath),
+        name: itemName(c, cpath),
+        notes: readText(c, "description", cpath, issues) ?? "",
+        domains: readDomainTags(c, cpath, domains, issues),
+        ...(contactHours !== undefined ? { contactHours } : {}),
+        ...(weighting !== undefined ? { weighting } : {}),
+        ...stageRef(c, cpath),
+      };
+      items.push(item);
+      const refs = readList(c, "assesses", cpath, issues);
+      if (refs.length && type !== "Assessment") {
+        issues.push({ path: `${cpath}.assesses`, kind: "Dropped", detail: "only assessments assess outcomes" });
+      } else if (refs.length) {
+        assessed.push({ item, refs, path: cpath });
+      }
+    });
+  });
+
+  // Outcome references are resolved once every outcome has been read.
+  for (const { item, refs, path } of assessed) {
+    const ids = refs.flatMap((ref, i) => {
+      const id = typeof ref === "string" ? outcomeIds.get(ref) : undefined;
+      if (!id) issues.push({ path: `${path}.assesses[${i}]`, kind: "Dropped", detail: `no outcome with id ${JSON.stringify(ref)}` });
+      return id ? [id] : [];
+    });
+    if (ids.length) item.outcomeIds = ids;
+  }
+
+  return { programme, items: items.length ? items : [newItem("Module")] };
+}
+
+/** Import a Capability Assessment Tool cohort baseline for the active framework. */
+export function importCapabilityBaseline(
+  payload: Record<string, unknown>,
+  source: string,
+  framework: FrameworkDefinition,
+  issues: ImportIssue[]
+): CapabilityBaseline | { error: string } {
+  const path = "$.payload";
+  const frameworkId = readText(payload, "frameworkId", path, issues);
+  if (frameworkId && frameworkId !== framework.id) {
+    return { error: `This baseline was assessed against “${frameworkId}”, but the programme uses “${framework.id}”.` };
+  }
+  reportUnknownFields(payload, ["frameworkId", "cohort", "assessedAt", "scale", "scores"], path, issues);
+
+  const scale = asRecord(payload.scale) ?? {};
+  const scaleMin = readNumber(scale, "min", `${path}.scale`, issues) ?? 0;
+  const scaleMax = readNumber(scale, "max", `${path}.scale`, issues) ?? 100;
+  if (scaleMax <= scaleMin) return { error: "The baseline scale maximum must be above its minimum." };
+
+  const scoresRaw = asRecord(payload.scores);
+  if (!scoresRaw) return { error: "The baseline has no scores object." };
+  const scores: Record<DomainKey, number> = {};
+  for (const key of Object.keys(scoresRaw)) {
+    if (!framework.domains.some((d) => d.key === key)) {
+      issues.push({ path: `${path}.scores.${key}`, kind: "Dropped", detail: "domain not in the active framework" });
+      continue;
+    }
+    const v = readNumber(scoresRaw, key, `${path}.scores`, issues);
+    if (v === undefined) continue;
+    const clamped = Math.min(scaleMax, Math.max(scaleMin, v));
+    if (clamped !== v) {
+      issues.push({ path: `${path}.scores.${key}`, kind: "Coerced", detail: `${v} outside ${scaleMin}–${scaleMax}, clamped to ${clamped}` });
+    }
+    scores[key] = clamped;
+  }
+
+  return {
+    source,
+    cohort: readText(payload, "cohort", path, issues) ?? "",
+    assessedAt: readText(payload, "assessedAt", path, issues) ?? "",
+    scaleMin,
+    scaleMax,
+    scores,
+  };
+}
+
+/**
+ * Read a simulation-structure file (as written by this tool) back into items,
+ * so the profile round-trips. Weights are derived values and are not read.
+ */
+export function importSimulationStructure(
+  payload: Record<string, unknown>,
+  framework: FrameworkDefinition,
+  issues: ImportIssue[]
+): { programme: ProgrammeDetails; items: MapItem[] } | { error: string } {
+  const fw = asRecord(payload.framework);
+  if (fw && fw.id !== framework.id) {
+    return { error: `This file was mapped against “${String(fw.id)}”, but the programme uses “${framework.id}”.` };
+  }
+  reportUnknownFields(payload, ["framework", "scoringModel", "depthScale", "stages", "items"], "$.payload", issues);
+
+  const stages = normalizeStages(readList(payload, "stages", "$.payload", issues));
+  // Items are built from what the report describes: the tags readDomainTags
+  // accepted, and the type and exposure as coerced here.
+  const raws = readList(payload, "items", "$.payload", issues).flatMap((raw, i) => {
+    const path = `$.payload.items[${i}]`;
+    const it = asRecord(raw);
+    if (!it) {
+      issues.push({ path, kind: "Dropped", detail: "expected an object" });
+      return [];
+    }
+    reportUnknownFields(
+      it,
+      ["id", "type", "name", "parentId", "stageId", "credits", "weighting", "contactHours", "exposure", "domains", "indicators", "weights"],
+      path,
+      issues
+    );
+    const type = coerceMapItemType(it.type);
+    if (it.type !== undefined && it.type !== type) {
+      issues.push({ path: `${path}.type`, kind: "Coerced", detail: `unknown type ${JSON.stringify(it.type)} read as ${type}` });
+    }
+    const exposure = coerceExposure(it.exposure);
+    if (it.exposure !== undefined && it.exposure !== exposure) {
+      issues.push({ path: `${path}.exposure`, kind: "Coerced", detail: `unknown exposure ${JSON.stringify(it.exposure)} read as ${exposure}` });
+    }
+    return [{ ...it, type, exposure, domains: readDomainTags(it, path, framework.domains, issues) }];
+  });
+
+  const programme: ProgrammeDetails = {
+    ...defaultProgrammeDetails(),
+    framework,
+    stages,
+    scoringModel: coerceScoringModel(payload.scoringModel),
+  };
+  return { programme, items: normalizeItems(raws, framework.domains) };
+}
+
+export function buildSimulationExport(
+  programme: ProgrammeDetails,
+  items: MapItem[],
+  score: ItemScorer,
+  exportedAtISO: string
+): SimulationExport {
+  const domains = programme.framework.domains;
+  return {
+    schema: INTERCHANGE_SCHEMA,
+    schemaVersion: INTERCHANGE_EXPORT_VERSION,
+    kind: "simulation-structure",
+    source: INTERCHANGE_SOURCE,
+    exportedAt: exportedAtISO,
+    payload: {
+      framework: {
+        ...frameworkReference(programme.framework),
+        domains: domains.map((d) => ({ key: d.key, name: d.name })),
+      },
+      scoringModel: programme.scoringModel,
+      depthScale: DEPTH_MAP,
+      stages: programme.stages,
+      items: items.map((it) => {
+        const tagged = domains.filter((d) => it.domains[d.key]);
+        return {
+          id: it.id,
+          type: it.type,
+          name: it.name,
+          ...(it.parentId ? { parentId: it.parentId } : {}),
+          ...(it.stageId ? { stageId: it.stageId } : {}),
+          ...(it.credits !== undefined ? { credits: it.credits } : {}),
+          ...(it.weighting !== undefined ? { weighting: it.weighting } : {}),
+          ...(it.contactHours !== undefined ? { contactHours: it.contactHours } : {}),
+          exposure: it.exposure,
+          domains: Object.fromEntries(tagged.map((d) => [d.key, it.domains[d.key] as DomainDepth])),
+          ...(it.indicators ? { indicators: it.indicators } : {}),
+          weights: Object.fromEntries(tagged.map((d) => [d.key, roundScore(domainScore(it, d, score))])),
+        };
+      }),
+    },
+  };
+}
+
+export function buildDashboardExport(args: {
+  programme: ProgrammeDetails;
+  items: MapItem[];
+  coverage: Record<DomainKey, number>;
+  weightedCoverage: Record<DomainKey, number>;
+  exposureTotal: number;
+  gapFindings: GapFinding[];
+  targetComparison: TargetComparison | null;
+  traceability: OutcomeTrace[];
+  exportedAtISO: string;
+}): DashboardExport {
+  const { programme, items, coverage, weightedCoverage, exposureTotal, gapFindings, targetComparison, traceability } = args;
+  const domains = programme.framework.domains;
+  const totalWeighted = Object.values(weightedCoverage).reduce((a, b) => a + b, 0);
+  const count = (type: MapItemType) => items.filter((it) => it.type === type).length;
+
+  return {
+    schema: INTERCHANGE_SCHEMA,
+    schemaVersion: INTERCHANGE_EXPORT_VERSION,
+    kind: "dashboard-signals",
+    source: INTERCHANGE_SOURCE,
+    exportedAt: args.exportedAtISO,
+    payload: {
+      programme: {
+        programmeTitle: programme.programmeTitle,
+        awardLevel: programme.awardLevel,
+        department: programme.department,
+        institution: programme.institution,
+        mappingDate: programme.mappingDate,
+        version: programme.version,
+      },
+      framework: frameworkReference(programme.framework),
+      scoringModel: programme.scoringModel,
+      totals: {
+        items: items.length,
+        modules: count("Module"),
+        activities: count("Activity"),
+        assessments: count("Assessment"),
+        exposure: exposureTotal,
+      },
+      coverage: domains.map((d) => ({
+        domain: d.key,
+        taggedItems: coverage[d.key],
+        intensity: weightedCoverage[d.key],
+        share: totalWeighted > 0 ? roundScore((weightedCoverage[d.key] / totalWeighted) * 100) : 0,
+      })),
+      // Finding messages can quote item names, so only counts are exported.
+      gaps: gapFindings.map((f) => ({
+        ruleId: f.ruleId,
+        name: f.name,
+        severity: f.severity,
+        domain: f.domain,
+        itemCount: f.itemIds?.length ?? 0,
+      })),
+      ...(programme.targetProfile && targetComparison
+        ? {
+            target: {
+              name: programme.targetProfile.name,
+              awardLevel: programme.targetProfile.awardLevel,
+              percentMet: targetComparison.percentMet,
+              totalShortfall: targetComparison.totalShortfall,
+            },
+          }
+        : {}),
+      outcomes: {
+        total: traceability.length,
+        notAssessed: traceability.filter((t) => t.gap).length,
+        linkGaps: traceability.reduce((sum, t) => sum + t.links.filter((l) => l.gap).length, 0),
+      },
+      governance: {
+        aiInvolvement: programme.aiInvolvement,
+        assumptions: programme.assumptions,
+        risks: programme.risks,
+        rationale: programme.rationale,
+        reviewNotes: programme.reviewNotes,
+      },
+    },
+  };
+}
@@ -0,0 +1,621 @@
+import type { Domain, DomainKey } from "./content/domains";
+import { DEFAULT_FRAMEWORK } from "./content/frameworks";
+import type { FrameworkDefinition } from "./content/frameworks";
+
+export type MapItemType = "Module" | "Activity" | "Assessment";
+
+/** Depth at which an item engages a domain (the I-D-A curriculum mapping scale). */
+export type DomainDepth = "Introduced" | "Developed" | "Applied" | "Assessed";
+
+export const DEPTH_LEVELS: DomainDepth[] = ["Introduced", "Developed", "Applied", "Assessed"];
+
+export const DEPTH_MAP: Record<DomainDepth, number> = {
+  Introduced: 1,
+  Developed: 2,
+  Applied: 3,
+  Assessed: 4,
+};
+
+export const DEPTH_SHORT: Record<DomainDepth, string> = {
+  Introduced: "I",
+  Developed: "D",
+  Applied: "Ap",
+  Assessed: "As",
+};
+
+/** Per-domain depth, keyed by the active framework's domains; null or absent where untagged. */
+type DomainDepths = Record<DomainKey, DomainDepth | null>;
+
+/** Older files stored one item-wide Low/Medium/High weight alongside boolean tags. */
+export const LEGACY_WEIGHT_DEPTH: Record<string, DomainDepth> = {
+  Low: "Introduced",
+  Medium: "Developed",
+  High: "Applied",
+};
+
+/**
+ * "simple" scores each tagged domain by its depth alone.
+ * "credit-weighted" multiplies depth by the item's size in credit
+ * equivalents (module credits, assessment share of its module, activity hours).
+ */
+export type ScoringModel = "simple" | "credit-weighted";
+
+/** Score an item's contribution to one domain (0 where the domain is not tagged). */
+export type ItemScorer = (item: MapItem, key: DomainKey) => number;
+
+/** How far AI use is built into an item, from no involvement to AI use being assessed. */
+export type AIExposure = "None" | "Permitted" | "Encouraged" | "Required" | "Assessed";
+
+export const EXPOSURE_LEVELS: AIExposure[] = ["None", "Permitted", "Encouraged", "Required", "Assessed"];
+
+export type FindingSeverity = "High" | "Medium" | "Low";
+
+/**
+ * A programme's gap-detection rule. Domain rules produce one finding per
+ * domain that fails; required-domain rules produce one finding per rule.
+ */
+export type GapRule = {
+  id: string;
+  name: string;
+  severity: FindingSeverity;
+} & (
+  | { kind: "no-coverage" }
+  /** Intensity above zero but below this fraction of the programme average. */
+  | { kind: "relative-threshold"; fraction: number }
+  | { kind: "target-minimum"; domain: DomainKey; minimum: number }
+  /** Percentage of the programme's total intensity. */
+  | { kind: "target-share"; domain: DomainKey; share: number }
+  | { kind: "required-domain"; itemType: MapItemType; domain: DomainKey }
+);
+
+export type GapFinding = {
+  ruleId: string;
+  name: string;
+  severity: FindingSeverity;
+  domain: DomainKey;
+  /** Items that break a required-domain rule. */
+  itemIds?: string[];
+  message: string;
+};
+
+export type StageKind = "Year" | "Term" | "Block";
+
+/** A point in the student journey (e.g. Year 1, Term 2, Block B), in programme order. */
+export type ProgrammeStage = {
+  id: string;
+  kind: StageKind;
+  label: string;
+};
+
+/** A programme- or module-level learning outcome linked to capability domains. */
+export type LearningOutcome = {
+  id: string;
+  /** Short reference such as PLO1 or M2-LO3. */
+  code: string;
+  text: string;
+  /** Module the outcome belongs to; absent for programme-level outcomes. */
+  moduleId?: string;
+  domains: DomainKey[];
+};
+
+export type MapItem = {
+  id: string;
+  type: MapItemType;
+  name: string;
+  notes: string;
+  domains: DomainDepths;
+  /** Indicator keys covered within each tagged domain; a domain's depth applies to its indicators. */
+  indicators?: Record<DomainKey, string[]>;
+  exposure: AIExposure;
+  /** Module credits (Modules only). */
+  credits?: number;
+  /** Percentage of the parent module's assessment (Assessments only). */
+  weighting?: number;
+  /** Contact hours (Activities only). */
+  contactHours?: number;
+  /** Stage id; Activities and Assessments without one inherit their parent module's stage. */
+  stageId?: string;
+  /** Parent Module id (Activities and Assessments only; absent when unassigned). */
+  parentId?: string;
+  /** Learning outcome ids this item assesses (Assessments only). */
+  outcomeIds?: string[];
+  governance?: ItemGovernance;
+};
+
+/** Governance notes for one item: the programme-level note fields plus a risk owner and review date. */
+export type ItemGovernance = Partial<Record<GovernanceNoteField, string>> & {
+  riskOwner?: string;
+  reviewDue?: string; // YYYY-MM-DD
+};
+
+/** Where a mapping is in the draft → team review → QA approval cycle. */
+export type MappingStatus = "Draft" | "In review" | "Changes requested" | "Approved";
+
+export type Reviewer = {
+  id: string;
+  name: string;
+  role: string;
+};
+
+type ItemComment = {
+  id: string;
+  itemId: string;
+  author: string;
+  text: string;
+  at: string; // ISO datetime
+};
+
+export type ReviewState = {
+  status: MappingStatus;
+  /** Who moved the mapping into its current status, and when. */
+  statusChangedBy?: string;
+  statusChangedAt?: string; // ISO datetime
+  reviewers: Reviewer[];
+  comments: ItemComment[];
+};
+
+export type ProgrammeDetails = {
+  programmeTitle: string;
+  awardLevel: string;
+  department: string;
+  institution: string;
+  mappingDate: string; // YYYY-MM-DD
+  version: string;
+  /** Ordered student-journey stages that items can be assigned to. */
+  stages: ProgrammeStage[];
+  scoringModel: ScoringModel;
+  /** Capability framework the programme is mapped against (embedded so files are self-describing). */
+  framework: FrameworkDefinition;
+  /** Programme- and module-level learning outcomes. */
+  outcomes: LearningOutcome[];
+  /** Gap-detection rules evaluated against the mapping. */
+  gapRules: GapRule[];
+  /** Target capability profile the coverage is measured against. */
+  targetProfile?: TargetProfile;
+  /** Cohort baseline from the Capability Assessment Tool. */
+  baseline?: CapabilityBaseline;
+  /** Review status, reviewers and item comments. */
+  review: ReviewState;
+  aiInvolvement?: string;
+  assumptions?: string;
+  risks?: string;
+  rationale?: string;
+  reviewNotes?: string;
+};
+
+export type TraceGap = "Not assessed" | "Taught, not assessed" | "Assessed, not taught first";
+
+/** One outcome → domain link with the items that teach and assess it. */
+type TraceLink = {
+  domain: Domain;
+  taughtBy: MapItem[];
+  assessedBy: MapItem[];
+  gap?: TraceGap;
+};
+
+export type OutcomeTrace = {
+  outcome: LearningOutcome;
+  assessedBy: MapItem[];
+  links: TraceLink[];
+  gap?: TraceGap;
+};
+
+/**
+ * Desired distribution of intensity across domains for a kind of programme
+ * (e.g. UG Year 1, MSc), as percentage shares. Shares are independent of
+ * programme size and scoring model, so a template applies to any programme.
+ */
+export type TargetProfile = {
+  id: string;
+  name: string;
+  awardLevel: string;
+  /** Framework whose domain keys the targets use. */
+  frameworkId: string;
+  /** Percentage share per domain; read as a distribution, so shares are rescaled to sum to 100. */
+  targets: Record<DomainKey, number>;
+};
+
+/** A domain's share of the programme's intensity against its target share, in percent. */
+export type TargetGap = {
+  domain: Domain;
+  actual: number;
+  target: number;
+  /** Percentage points below the target share (0 when met). */
+  shortfall: number;
+};
+
+export type TargetComparison = {
+  rows: TargetGap[];
+  /** Percentage points below target, summed over domains. */
+  totalShortfall: number;
+  /** Overlap of the actual and target distributions, 0–100. */
+  percentMet: number;
+};
+
+/** Cohort capability baseline imported from the Capability Assessment Tool. */
+export type CapabilityBaseline = {
+  source: string;
+  cohort: string;
+  assessedAt: string;
+  scaleMin: number;
+  scaleMax: number;
+  scores: Record<DomainKey, number>;
+};
+
+export type GovernanceNoteField = "aiInvolvement" | "assumptions" | "risks" | "rationale" | "reviewNotes";
+
+export const GOVERNANCE_NOTE_LABELS: Record<GovernanceNoteField, string> = {
+  aiInvolvement: "AI Involvement",
+  assumptions: "Assumptions",
+  risks: "Risks or Concerns",
+  rationale: "Rationale",
+  reviewNotes: "Human Review Notes",
+};
+
+export const ITEM_GOVERNANCE_LABELS: Record<keyof ItemGovernance, string> = {
+  ...GOVERNANCE_NOTE_LABELS,
+  riskOwner: "Risk owner",
+  reviewDue: "Review due",
+};
+
+/** A field an importer did not take as-is. */
+export type ImportIssue = {
+  path: string;
+  kind: ImportIssueKind;
+  detail: string;
+};
+
+export type ImportIssueKind = "Dropped" | "Coerced" | "Unknown field" | "Duplicate id";
+
+/**
+ * Safe UUID generator for wider browser support.
+ */
+export function safeUUID(): string {
+  try {
+    const c: Crypto | undefined = typeof crypto !== "undefined" ? crypto : undefined;
+    if (c && typeof c.randomUUID === "function") return c.randomUUID();
+  } catch {
+    // ignore
+  }
+  return `id-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
+}
+
+export function emptyDomains(): DomainDepths {
+  return {};
+}
+
+export function newItem(type: MapItemType, parentId?: string): MapItem {
+  const id = safeUUID();
+  const item: MapItem = {
+    id,
+    type,
+    name: "",
+    notes: "",
+    domains: emptyDomains(),
+    exposure: "None",
+  };
+  if (type !== "Module" && parentId) item.parentId = parentId;
+  return item;
+}
+
+/**
+ * Drop parent references that do not point at a Module in the list
+ * (e.g. the module was removed, or an older flat file was imported).
+ */
+export function reconcileParents(items: MapItem[]): MapItem[] {
+  const moduleIds = new Set(items.filter((it) => it.type === "Module").map((it) => it.id));
+  return items.map((it) => {
+    if (it.parentId === undefined) return it;
+    if (it.type !== "Module" && moduleIds.has(it.parentId)) return it;
+    const next = { ...it };
+    delete next.parentId;
+    return next;
+  });
+}
+
+export function simpleScore(item: MapItem, key: DomainKey): number {
+  const depth = item.domains[key];
+  return depth ? DEPTH_MAP[depth] : 0;
+}
+
+/**
+ * Share of a domain's indicators an item addresses. An item tagged at the
+ * domain without choosing indicators addresses the domain as a whole.
+ */
+export function indicatorBreadth(item: MapItem, domain: Domain): number {
+  const defined = domain.indicators ?? [];
+  const tagged = item.indicators?.[domain.key]?.filter((k) => defined.some((ind) => ind.key === k)) ?? [];
+  return defined.length && tagged.length ? tagged.length / defined.length : 1;
+}
+
+/**
+ * Intensity an item contributes to a domain. For domains that define
+ * indicators this rolls up from them: the item's score is spread over the
+ * indicators it addresses, so the domain's intensity is the mean of its
+ * indicators' intensity (see tallyIndicators).
+ */
+export function domainScore(item: MapItem, domain: Domain, score: ItemScorer = simpleScore): number {
+  return item.domains[domain.key] ? score(item, domain.key) * indicatorBreadth(item, domain) : 0;
+}
+
+export function roundScore(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+export function todayISODate(): string {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function defaultProgrammeDetails(): ProgrammeDetails {
+  return {
+    programmeTitle: "",
+    awardLevel: "",
+    department: "",
+    institution: "",
+    mappingDate: todayISODate(),
+    version: "v0.1",
+    stages: [],
+    scoringModel: "simple",
+    framework: DEFAULT_FRAMEWORK,
+    outcomes: [],
+    gapRules: defaultGapRules(),
+    review: defaultReviewState(),
+  };
+}
+
+function defaultReviewState(): ReviewState {
+  return { status: "Draft", reviewers: [], comments: [] };
+}
+
+/** Keep a stored id unless it is missing or already taken, in which case a new one is assigned. */
+export function claimId(v: unknown, seen: Set<string>): string {
+  const id = typeof v === "string" && !seen.has(v) ? v : safeUUID();
+  seen.add(id);
+  return id;
+}
+
+export function newStage(kind: StageKind, position: number): ProgrammeStage {
+  return { id: safeUUID(), kind, label: `${kind} ${position}` };
+}
+
+export function coerceMapItemType(v: unknown): MapItemType {
+  if (v === "Module" || v === "Activity" || v === "Assessment") return v;
+  return "Module";
+}
+
+export function coerceDepth(v: unknown): DomainDepth | null {
+  return DEPTH_LEVELS.includes(v as DomainDepth) ? (v as DomainDepth) : null;
+}
+
+/**
+ * Read per-domain depths, converting older boolean tags using the item-wide
+ * Low/Medium/High weight (Low → Introduced, Medium → Developed, High → Applied).
+ */
+function normalizeDomains(domainsRaw: unknown, legacyWeight: unknown, framework: Domain[]): DomainDepths {
+  const raw = domainsRaw && typeof domainsRaw === "object" ? (domainsRaw as Record<string, unknown>) : {};
+  const legacyDepth =
+    typeof legacyWeight === "string" && LEGACY_WEIGHT_DEPTH[legacyWeight]
+      ? LEGACY_WEIGHT_DEPTH[legacyWeight]
+      : "Developed";
+
+  const domains = emptyDomains();
+  for (const d of framework) {
+    const v = raw[d.key];
+    const depth = v === true ? legacyDepth : coerceDepth(v);
+    if (depth) domains[d.key] = depth;
+  }
+  return domains;
+}
+
+/** Keep only indicator keys the framework defines, under domains the item is tagged against. */
+export function normalizeIndicators(
+  indicatorsRaw: unknown,
+  tagged: DomainDepths,
+  framework: Domain[]
+): Record<DomainKey, string[]> | undefined {
+  const raw = indicatorsRaw && typeof indicatorsRaw === "object" ? (indicatorsRaw as Record<string, unknown>) : {};
+  const result: Record<DomainKey, string[]> = {};
+  for (const d of framework) {
+    const keys = raw[d.key];
+    if (!tagged[d.key] || !Array.isArray(keys)) continue;
+    const valid = (d.indicators ?? []).map((ind) => ind.key).filter((k) => keys.includes(k));
+    if (valid.length) result[d.key] = valid;
+  }
+  return Object.keys(result).length ? result : undefined;
+}
+
+export function coerceStageKind(v: unknown): StageKind {
+  if (v === "Year" || v === "Term" || v === "Block") return v;
+  return "Year";
+}
+
+export function normalizeStages(stagesRaw: unknown): ProgrammeStage[] {
+  const arr = Array.isArray(stagesRaw) ? (stagesRaw as unknown[]) : [];
+  const seen = new Set<string>();
+  return arr
+    .filter((st): st is Record<string, unknown> => !!st && typeof st === "object")
+    .map((st, idx) => {
+      const kind = coerceStageKind(st.kind);
+      return {
+        id: claimId(st.id, seen),
+        kind,
+        label: typeof st.label === "string" ? st.label : `${kind} ${idx + 1}`,
+      };
+    });
+}
+
+export function coerceScoringModel(v: unknown): ScoringModel {
+  return v === "credit-weighted" ? v : "simple";
+}
+
+/** Accept finite, non-negative numbers (or numeric strings); anything else is treated as unset. */
+export function coerceOptionalNumber(v: unknown): number | undefined {
+  const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+export function coerceExposure(v: unknown): AIExposure {
+  return EXPOSURE_LEVELS.includes(v as AIExposure) ? (v as AIExposure) : "None";
+}
+
+function optionalNumberField<K extends "credits" | "weighting" | "contactHours">(
+  key: K,
+  v: unknown
+): Partial<Record<K, number>> {
+  const n = coerceOptionalNumber(v);
+  return n === undefined ? {} : ({ [key]: n } as Partial<Record<K, number>>);
+}
+
+export function normalizeItems(itemsRaw: unknown, domains: Domain[]): MapItem[] {
+  const arr = Array.isArray(itemsRaw) ? itemsRaw.map(asRecord).filter((it): it is Record<string, unknown> => it !== null) : [];
+  if (arr.length === 0) return [newItem("Module")];
+
+  const seen = new Set<string>();
+  const normalized: MapItem[] = arr.map((it) => {
+    const tagged = normalizeDomains(it.domains, it.weight, domains);
+    const indicators = normalizeIndicators(it.indicators, tagged, domains);
+    return {
+      id: claimId(it.id, seen),
+      type: coerceMapItemType(it.type),
+      name: typeof it.name === "string" ? it.name : "",
+      notes: typeof it.notes === "string" ? it.notes : "",
+      domains: tagged,
+      ...(indicators ? { indicators } : {}),
+      exposure: coerceExposure(it.exposure),
+      ...optionalNumberField("credits", it.credits),
+      ...optionalNumberField("weighting", it.weighting),
+      ...optionalNumberField("contactHours", it.contactHours),
+      ...(typeof it.stageId === "string" ? { stageId: it.stageId } : {}),
+      ...(typeof it.parentId === "string" ? { parentId: it.parentId } : {}),
+      ...(Array.isArray(it.outcomeIds)
+        ? { outcomeIds: (it.outcomeIds as unknown[]).filter((o): o is string => typeof o === "string") }
+        : {}),
+      ...withGovernance(normalizeItemGovernance(it.governance)),
+    };
+  });
+
+  // Older flat files simply have no parentId; stale references are dropped here.
+  return reconcileParents(normalized);
+}
+
+/** Keep the known governance fields that hold text; an item with none has no `governance`. */
+export function normalizeItemGovernance(raw: unknown): ItemGovernance | undefined {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const result: ItemGovernance = {};
+  for (const key of Object.keys(ITEM_GOVERNANCE_LABELS) as (keyof ItemGovernance)[]) {
+    const v = obj[key];
+    if (typeof v === "string" && v.trim()) result[key] = v;
+  }
+  return Object.keys(result).length ? result : undefined;
+}
+
+export function withGovernance(governance: ItemGovernance | undefined): { governance?: ItemGovernance } {
+  return governance ? { governance } : {};
+}
+
+const TRUTHY_CELL = new Set(["yes", "y", "true", "x", "1", "✓"]);
+const FALSY_CELL = new Set(["no", "n", "false", "0", "-"]);
+
+/** Read a domain cell: a depth (full name or I/D/Ap/As), a yes-style flag, or blank. */
+export function parseDepthCell(value: string): DomainDepth | boolean | null | undefined {
+  const v = value.trim().toLowerCase();
+  if (!v || FALSY_CELL.has(v)) return null;
+  if (TRUTHY_CELL.has(v)) return true;
+  const depth = DEPTH_LEVELS.find((lvl) => lvl.toLowerCase() === v || DEPTH_SHORT[lvl].toLowerCase() === v);
+  if (depth) return depth;
+  if (v === "a") return "Applied";
+  return undefined;
+}
+
+/**
+ * Field readers for the interchange importers. Absent optional fields are
+ * not reported; present fields of the wrong type are coerced where the value
+ * is unambiguous and dropped otherwise.
+ */
+export function asRecord(v: unknown): Record<string, unknown> | null {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+}
+
+export function readText(obj: Record<string, unknown>, key: string, path: string, issues: ImportIssue[]): string | undefined {
+  const v = obj[key];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v === "string") return v;
+  if (typeof v === "number" || typeof v === "boolean") {
+    issues.push({ path: `${path}.${key}`, kind: "Coerced", detail: `${typeof v} ${String(v)} read as text` });
+    return String(v);
+  }
+  issues.push({ path: `${path}.${key}`, kind: "Dropped", detail: `expected text, found ${Array.isArray(v) ? "list" : typeof v}` });
+  return undefined;
+}
+
+export function readNumber(obj: Record<string, unknown>, key: string, path: string, issues: ImportIssue[]): number | undefined {
+  const v = obj[key];
+  if (v === undefined || v === null || v === "") return undefined;
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  const n = typeof v === "string" ? Number(v.trim()) : NaN;
+  if (Number.isFinite(n)) {
+    issues.push({ path: `${path}.${key}`, kind: "Coerced", detail: `text “${v}” read as ${n}` });
+    return n;
+  }
+  issues.push({ path: `${path}.${key}`, kind: "Dropped", detail: `expected a number, found ${JSON.stringify(v)}` });
+  return undefined;
+}
+
+export function readList(obj: Record<string, unknown>, key: string, path: string, issues: ImportIssue[]): unknown[] {
+  const v = obj[key];
+  if (v === undefined || v === null) return [];
+  if (Array.isArray(v)) return v;
+  issues.push({ path: `${path}.${key}`, kind: "Dropped", detail: "expected a list" });
+  return [];
+}
+
+export function reportUnknownFields(obj: Record<string, unknown>, known: string[], path: string, issues: ImportIssue[]) {
+  for (const key of Object.keys(obj)) {
+    if (!known.includes(key)) issues.push({ path: `${path}.${key}`, kind: "Unknown field", detail: "not part of the schema" });
+  }
+}
+
+/** Read `{ domainKey: depth }` tags, dropping unknown domains and unrecognised depths. */
+export function readDomainTags(
+  obj: Record<string, unknown>,
+  path: string,
+  domains: Domain[],
+  issues: ImportIssue[]
+): DomainDepths {
+  const tags = emptyDomains();
+  const raw = obj.domains;
+  if (raw === undefined || raw === null) return tags;
+  const rec = asRecord(raw);
+  if (!rec) {
+    issues.push({ path: `${path}.domains`, kind: "Dropped", detail: "expected an object of domain depths" });
+    return tags;
+  }
+  for (const [key, value] of Object.entries(rec)) {
+    if (!domains.some((d) => d.key === key)) {
+      issues.push({ path: `${path}.domains.${key}`, kind: "Dropped", detail: "domain not in the active framework" });
+      continue;
+    }
+    // Yes-style values carry no depth, so they are read as Developed (as in CSV import).
+    const cell = typeof value === "string" ? parseDepthCell(value) : value === true ? true : value === false ? null : undefined;
+    const depth = cell === true ? "Developed" : cell;
+    if (depth === undefined) {
+      issues.push({ path: `${path}.domains.${key}`, kind: "Dropped", detail: `depth ${JSON.stringify(value)} not recognised` });
+    } else if (depth) {
+      if (value !== depth) issues.push({ path: `${path}.domains.${key}`, kind: "Coerced", detail: `${JSON.stringify(value)} read as ${depth}` });
+      tags[key] = depth;
+    }
+  }
+  return tags;
+}
+
+/** The rules every programme starts with: no coverage, and below half the programme average. */
+export function defaultGapRules(): GapRule[] {
+  return [
+    { id: safeUUID(), name: "Primary gap", severity: "High", kind: "no-coverage" },
+    { id: safeUUID(), name: "Secondary gap", severity: "Medium", kind: "relative-threshold", fraction: 0.5 },
+  ];
+}